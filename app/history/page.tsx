@@ -34,6 +34,12 @@ export default function HistoryPage() {
               >
                 Neue Analyse
               </Link>
+              <Link
+                href="/settings"
+                className="text-sm text-text-secondary hover:text-primary-orange transition-colors"
+              >
+                Einstellungen
+              </Link>
               <ThemeToggle inline />
             </div>
           </div>
@@ -4,7 +4,7 @@
  * Main application page for Behörden-Klartext.
  */
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import Link from "next/link";
 import { useOCR } from "@/hooks/useOCR";
 import { usePDF } from "@/hooks/usePDF";
@@ -17,11 +17,16 @@ import { AnalysisResultDisplay } from "@/components/AnalysisResult";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { TextPreview } from "@/components/TextPreview";
 import { HighlightControls } from "@/components/HighlightControls";
+import { NormalizationDiff } from "@/components/NormalizationDiff";
 import { DisclaimerModal, useDisclaimer } from "@/components/DisclaimerModal";
 import { Sidebar } from "@/components/Sidebar";
-import { AnalysisResult, InputSource } from "@/types";
+import { AnalysisResult, DecodedCode, InputSource, NormalizationChange, OcrDocument } from "@/types";
 import { isPDF } from "@/lib/pdf/extractor";
+import { scanImagesForCodes } from "@/lib/barcode/decoder";
 import { validateLetter } from "@/lib/validation";
+import { normalizeTextWithMap } from "@/lib/normalization/text";
+import { getNormalizationLog } from "@/lib/normalization/offsets";
+import { findUncertainWords } from "@/lib/scoring/uncertainty";
 import { AlertTriangle } from "@/components/icons";
 
 type InputMode = "upload" | "camera" | "text";
@@ -31,12 +36,19 @@ export default function Home() {
   const [textInput, setTextInput] = useState("");
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
+  // QR codes and barcodes found in the captured image or PDF pages
+  const [decodedCodes, setDecodedCodes] = useState<DecodedCode[]>([]);
+  // Layout of the scanned input, kept through analysis
+  const [ocrDocument, setOcrDocument] = useState<OcrDocument | undefined>(undefined);
   
   // Disclaimer modal state
   const { hasAccepted, acceptDisclaimer, isLoading: isDisclaimerLoading } = useDisclaimer();
   
-  // Preview state - shows highlighted text before final analysis
+  // Preview state - shows highlighted text before final analysis.
+  // previewText is the raw OCR/PDF/input text; normalization runs without
+  // the corrections the user rejected in the diff view.
   const [previewText, setPreviewText] = useState<string | null>(null);
+  const [rejectedChanges, setRejectedChanges] = useState<string[]>([]);
   const [showNeutralized, setShowNeutralized] = useState(true);
   const [showGreen, setShowGreen] = useState(true);
 
@@ -57,8 +69,11 @@ export default function Home() {
   const handleFileAnalysis = useCallback(
     async (file: File | Blob) => {
       setValidationError(null);
+      setDecodedCodes([]);
+      setOcrDocument(undefined);
       try {
-        let text: string;
+        let scanned: OcrDocument;
+        let images: Blob[];
 
         // Check if it's a PDF (only Files can be PDFs, not Blobs from camera)
         const isFilePDF = file instanceof File && isPDF(file);
@@ -66,12 +81,16 @@ export default function Home() {
         if (isFilePDF) {
           // Use PDF extractor for PDFs
           setCurrentInputSource("pdf");
-          text = await extractPDFText(file);
+          ({ ocrDocument: scanned, images } = await extractPDFText(file));
         } else {
           // Use OCR for images (including camera captures)
           setCurrentInputSource("camera");
-          text = await processImage(file);
+          scanned = await processImage(file);
+          images = [file];
         }
+        const { text } = scanned;
+
+        setDecodedCodes(await scanImagesForCodes(images));
 
         const validation = validateLetter(text);
         if (!validation.isValidLetter) {
@@ -80,7 +99,9 @@ export default function Home() {
         }
 
         // Show preview first instead of direct analysis
-        setPreviewText(validation.text);
+        setOcrDocument(scanned);
+        setRejectedChanges([]);
+        setPreviewText(text);
       } catch (error) {
         console.error("Analysis failed:", error);
       }
@@ -100,14 +121,20 @@ export default function Home() {
 
     // Show preview first instead of direct analysis
     setCurrentInputSource("text");
-    setPreviewText(validation.text);
+    setDecodedCodes([]);
+    setOcrDocument(undefined);
+    setRejectedChanges([]);
+    setPreviewText(textInput);
   }, [textInput, analyze]);
 
   const handleReset = useCallback(() => {
     setAnalysisResult(null);
     setPreviewText(null);
+    setRejectedChanges([]);
     setValidationError(null);
     setTextInput("");
+    setDecodedCodes([]);
+    setOcrDocument(undefined);
     resetOCR();
     resetPDF();
     resetScoring();
@@ -116,12 +143,31 @@ export default function Home() {
   // Handle proceeding from preview to analysis
   const handleProceedToAnalysis = useCallback(() => {
     if (!previewText) return;
-    const result = analyze(previewText);
+    const result = analyze(previewText, { codes: decodedCodes, rejectedChanges, ocrDocument });
     setAnalysisResult(result);
     
     // Save to history
     addEntry(result, currentInputSource);
-  }, [previewText, analyze, addEntry, currentInputSource]);
+  }, [previewText, decodedCodes, rejectedChanges, ocrDocument, analyze, addEntry, currentInputSource]);
+
+  // Normalized preview text, the changes normalization made and the words
+  // OCR read with low confidence
+  const normalizedPreview = useMemo(() => {
+    if (previewText === null) return null;
+    const normalized = normalizeTextWithMap(previewText, rejectedChanges, ocrDocument);
+    return {
+      text: normalized.text,
+      changes: getNormalizationLog(normalized),
+      uncertainWords: ocrDocument ? findUncertainWords(ocrDocument, previewText, normalized.map) : [],
+    };
+  }, [previewText, rejectedChanges, ocrDocument]);
+
+  // Accept or reject a single normalization change
+  const handleToggleChange = useCallback((change: NormalizationChange) => {
+    setRejectedChanges((rejected) => change.accepted
+      ? [...rejected, change.id]
+      : rejected.filter((id) => id !== change.id));
+  }, []);
 
   // Handle going back from preview to input
   const handleBackToInput = useCallback(() => {
@@ -159,7 +205,7 @@ export default function Home() {
   }
 
   // Show preview with highlighted keywords
-  if (previewText) {
+  if (previewText !== null && normalizedPreview) {
     return (
       <div className="bg-bg-primary text-text-primary transition-colors duration-300 min-h-screen">
         <Navbar />
@@ -191,9 +237,20 @@ export default function Home() {
             />
           </div>
 
+          {/* Changes made while cleaning the text */}
+          <div className="mb-4">
+            <NormalizationDiff
+              rawText={previewText}
+              normalizedText={normalizedPreview.text}
+              changes={normalizedPreview.changes}
+              onToggleChange={handleToggleChange}
+            />
+          </div>
+
           {/* Text preview with highlights */}
           <TextPreview
-            text={previewText}
+            text={normalizedPreview.text}
+            uncertainWords={normalizedPreview.uncertainWords}
             showNeutralized={showNeutralized}
             showGreen={showGreen}
             onAnalyze={handleProceedToAnalysis}
@@ -346,6 +403,12 @@ function Navbar() {
             >
               Verlauf
             </Link>
+            <Link
+              href="/settings"
+              className="text-sm text-text-secondary hover:text-primary-orange transition-colors"
+            >
+              Einstellungen
+            </Link>
             <ThemeToggle inline />
           </div>
         </div>
@@ -0,0 +1,185 @@
+"use client";
+
+/**
+ * Settings page - /settings
+ * Lets the user choose their Bundesland for holiday-aware deadlines and
+ * how photos and scans are prepared for text recognition.
+ */
+
+import Link from "next/link";
+import { useSettings } from "@/hooks/useSettings";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { BUNDESLAND_LABELS, getHolidays } from "@/lib/calendar/holidays";
+import { formatDateWithWeekday } from "@/lib/calendar/dates";
+import { BINARIZATION_LABELS, resolvePreprocessing } from "@/lib/ocr/preprocess";
+import { BinarizationMethod, Bundesland, PreprocessingSettings } from "@/types";
+
+/** Preprocessing steps that are switched on or off, in the order they run */
+const PREPROCESSING_TOGGLES: { key: "grayscale" | "contrast" | "crop" | "deskew" | "denoise"; label: string }[] = [
+  { key: "grayscale", label: "Graustufen" },
+  { key: "contrast", label: "Kontrast ausgleichen" },
+  { key: "crop", label: "Dunkle Ränder abschneiden" },
+  { key: "deskew", label: "Schräglage begradigen" },
+  { key: "denoise", label: "Bildrauschen entfernen" },
+];
+
+export default function SettingsPage() {
+  const { settings, isLoading, updateSettings } = useSettings();
+  const currentYear = new Date().getFullYear();
+  const holidays = getHolidays(currentYear, settings.bundesland);
+  const preprocessing = resolvePreprocessing(settings.preprocessing);
+
+  const updatePreprocessing = (changes: Partial<PreprocessingSettings>) =>
+    updateSettings({ preprocessing: { ...preprocessing, ...changes } });
+
+  return (
+    <div className="bg-bg-primary text-text-primary transition-colors duration-300 min-h-screen">
+      {/* Navigation */}
+      <nav className="border-b border-border-color bg-bg-primary">
+        <div className="container mx-auto px-4 max-w-6xl">
+          <div className="flex items-center justify-between h-14">
+            {/* Logo */}
+            <Link href="/" className="flex items-center gap-1 font-medium hover:opacity-80 transition-opacity">
+              <span className="text-primary-orange">~/</span>
+              <span className="text-text-primary font-semibold">behörden-klartext</span>
+            </Link>
+
+            {/* Right nav items */}
+            <div className="flex items-center gap-4">
+              <Link
+                href="/"
+                className="text-sm text-text-secondary hover:text-primary-orange transition-colors"
+              >
+                Neue Analyse
+              </Link>
+              <ThemeToggle inline />
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-text-primary mb-2">Einstellungen</h1>
+          <p className="text-text-secondary text-sm">
+            Einstellungen werden nur lokal in Ihrem Browser gespeichert.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12 text-text-secondary">
+            Laden...
+          </div>
+        ) : (
+          <div className="space-y-6 max-w-xl">
+            {/* Bundesland */}
+            <div className="bg-bg-secondary border border-border-color rounded-lg p-5">
+              <label
+                htmlFor="bundesland"
+                className="block text-xs font-semibold text-text-secondary uppercase tracking-wider mb-2"
+              >
+                Bundesland
+              </label>
+              <p className="text-sm text-text-secondary mb-4">
+                Fällt eine Frist auf ein Wochenende oder einen Feiertag, endet sie erst am
+                nächsten Werktag (§193 BGB). Feiertage unterscheiden sich je nach Bundesland.
+              </p>
+              <select
+                id="bundesland"
+                value={settings.bundesland ?? ""}
+                onChange={(e) =>
+                  updateSettings({
+                    bundesland: (e.target.value || undefined) as Bundesland | undefined,
+                  })
+                }
+                className="w-full bg-bg-primary border border-border-color rounded-lg p-3 text-text-primary focus:border-primary-orange focus:ring-1 focus:ring-primary-orange"
+              >
+                <option value="">Nicht festgelegt (nur bundesweite Feiertage)</option>
+                {(Object.keys(BUNDESLAND_LABELS) as Bundesland[]).map((code) => (
+                  <option key={code} value={code}>
+                    {BUNDESLAND_LABELS[code]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Image preprocessing */}
+            <div className="bg-bg-secondary border border-border-color rounded-lg p-5">
+              <h2 className="text-xs font-semibold text-text-secondary uppercase tracking-wider mb-2">
+                Bildaufbereitung vor der Texterkennung
+              </h2>
+              <p className="text-sm text-text-secondary mb-4">
+                Fotos und Scans werden vor der Texterkennung aufbereitet. Jede Variante wird
+                erkannt und das beste Ergebnis behalten. Mehr Varianten dauern länger.
+              </p>
+              <div className="space-y-2 mb-4">
+                {PREPROCESSING_TOGGLES.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-3 text-sm text-text-primary cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={preprocessing[key]}
+                      onChange={(e) => updatePreprocessing({ [key]: e.target.checked })}
+                      className="accent-primary-orange"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <label
+                htmlFor="binarization"
+                className="block text-xs font-semibold text-text-secondary uppercase tracking-wider mb-2"
+              >
+                Schwarz-Weiß-Umwandlung
+              </label>
+              <select
+                id="binarization"
+                value={preprocessing.binarization}
+                onChange={(e) =>
+                  updatePreprocessing({
+                    binarization: e.target.value as PreprocessingSettings["binarization"],
+                  })
+                }
+                className="w-full bg-bg-primary border border-border-color rounded-lg p-3 mb-4 text-text-primary focus:border-primary-orange focus:ring-1 focus:ring-primary-orange"
+              >
+                <option value="auto">Automatisch (beide Verfahren vergleichen)</option>
+                {(Object.keys(BINARIZATION_LABELS) as BinarizationMethod[]).map((method) => (
+                  <option key={method} value={method}>
+                    {BINARIZATION_LABELS[method]}
+                  </option>
+                ))}
+                <option value="none">Keine</option>
+              </select>
+              <label className="flex items-center gap-3 text-sm text-text-primary cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={preprocessing.compareOriginal}
+                  onChange={(e) => updatePreprocessing({ compareOriginal: e.target.checked })}
+                  className="accent-primary-orange"
+                />
+                Auch das unbearbeitete Bild erkennen und vergleichen
+              </label>
+            </div>
+
+            {/* Holiday overview */}
+            <div className="bg-bg-secondary border border-border-color rounded-lg p-5">
+              <h2 className="text-xs font-semibold text-text-secondary uppercase tracking-wider mb-4">
+                Feiertage {currentYear}
+              </h2>
+              <ul className="space-y-1 text-sm">
+                {holidays.map((holiday) => (
+                  <li key={`${holiday.name}-${holiday.date.getTime()}`} className="flex justify-between gap-4">
+                    <span className="text-text-primary">{holiday.name}</span>
+                    <span className="font-mono text-text-secondary">
+                      {formatDateWithWeekday(holiday.date)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
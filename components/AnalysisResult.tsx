@@ -4,9 +4,17 @@
  * Main analysis result display component.
  */
 
-import { AnalysisResult } from "@/types";
+import { useMemo, useState } from "react";
+import { AnalysisResult, SourceSpan } from "@/types";
 import { TrafficLight } from "./TrafficLight";
-import { ExtractedDataDisplay } from "./ExtractedData";
+import { ExtractedDataDisplay, collectHighlightFields } from "./ExtractedData";
+import { TextPreview } from "./TextPreview";
+import { ContactCard } from "./ContactCard";
+import { LegalRemedyCard } from "./LegalRemedyCard";
+import { GiroCodeCard } from "./GiroCodeCard";
+import { InstalmentPlanCard } from "./InstalmentPlanCard";
+import { buildPaymentDetails } from "@/lib/payment/girocode";
+import { UNCERTAIN_ITEM_LABELS } from "@/lib/scoring/uncertainty";
 import { 
   FileText, 
   ListChecks, 
@@ -14,7 +22,8 @@ import {
   Search, 
   ChevronDown, 
   RefreshCw, 
-  Lock 
+  Lock,
+  AlertTriangle,
 } from "@/components/icons";
 
 interface AnalysisResultDisplayProps {
@@ -27,6 +36,10 @@ export function AnalysisResultDisplay({
   onReset,
 }: AnalysisResultDisplayProps) {
   const { scoring, extractedData } = result;
+  const paymentDetails = buildPaymentDetails(extractedData);
+  const fields = useMemo(() => collectHighlightFields(extractedData), [extractedData]);
+  // A new object per click, so clicking the same field scrolls again
+  const [focusedSpan, setFocusedSpan] = useState<SourceSpan | null>(null);
 
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -40,6 +53,38 @@ export function AnalysisResultDisplay({
         />
       </div>
 
+      {/* Findings read from low-confidence OCR words */}
+      {scoring.uncertainItems.length > 0 && (
+        <div className="p-5 rounded-2xl border bg-orange-500/10 border-orange-500/50 space-y-3">
+          <p className="flex items-center gap-2 font-bold text-orange-700 dark:text-orange-400">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0" aria-hidden="true" />
+            Unsichere Texterkennung – bitte prüfen
+          </p>
+          <p className="text-sm text-text-secondary">
+            Die Einstufung beruht auch auf Stellen, die nur unsicher gelesen wurden.
+            Vergleichen Sie diese Wörter mit dem Original-Schreiben:
+          </p>
+          <ul className="flex flex-wrap gap-2">
+            {scoring.uncertainItems.map((item) => {
+              const confidence = Math.min(...item.words.map((word) => word.confidence));
+              return (
+                <li key={`${item.kind}-${item.start}`}>
+                  <button
+                    onClick={() => setFocusedSpan({ start: item.start, end: item.end, raw: item.text, confidence })}
+                    className="px-3 py-1 bg-bg-primary rounded-full border border-border-color text-sm hover:border-primary-orange transition-colors"
+                    title={`Gelesen als: ${item.words.map((word) => word.text).join(" ")}`}
+                  >
+                    <span className="text-text-secondary">{UNCERTAIN_ITEM_LABELS[item.kind]}:</span>{" "}
+                    <span className="ocr-uncertain font-mono text-text-primary">{item.text}</span>{" "}
+                    <span className="text-xs text-text-secondary">({Math.round(confidence * 100)} % sicher)</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* Category badge */}
       <div className="flex justify-center">
         <span className="px-5 py-2.5 bg-bg-secondary border border-border-color rounded-full text-sm font-bold text-text-primary shadow-sm tracking-wide">
@@ -58,8 +103,32 @@ export function AnalysisResultDisplay({
         <p className="text-text-secondary leading-relaxed text-lg italic">{scoring.summary}</p>
       </div>
 
+      {/* Appeal deadline from the Rechtsbehelfsbelehrung */}
+      {result.legalRemedy && (
+        <LegalRemedyCard remedy={result.legalRemedy} onSelectSpan={(span) => setFocusedSpan({ ...span })} />
+      )}
+
       {/* Extracted data */}
-      <ExtractedDataDisplay data={extractedData} />
+      <ExtractedDataDisplay data={extractedData} onSelectSpan={(span) => setFocusedSpan({ ...span })} />
+
+      {/* Letter text with the extracted fields marked */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-text-primary">Brieftext</h3>
+        <TextPreview
+          text={result.normalizedText}
+          fields={fields}
+          focusedSpan={focusedSpan}
+          uncertainWords={result.uncertainWords}
+        />
+      </div>
+
+      {/* Ratenzahlung / Stundung as a payment timeline */}
+      {extractedData.instalmentPlan && (
+        <InstalmentPlanCard plan={extractedData.instalmentPlan} onSelectSpan={(span) => setFocusedSpan({ ...span })} />
+      )}
+
+      {/* GiroCode for the payment */}
+      {paymentDetails && <GiroCodeCard initialDetails={paymentDetails} />}
 
       {/* Recommendations */}
       {scoring.recommendations.length > 0 && (
@@ -81,6 +150,15 @@ export function AnalysisResultDisplay({
         </div>
       )}
 
+      {/* Contact details, so "Kontaktieren Sie den Absender" is actionable */}
+      {extractedData.contact && (
+        <ContactCard
+          contact={extractedData.contact}
+          sender={extractedData.sender}
+          onSelectSpan={(span) => setFocusedSpan({ ...span })}
+        />
+      )}
+
       {/* Matched keywords (collapsible) */}
       {scoring.matches.length > 0 && (
         <details className="bg-bg-secondary rounded-2xl border border-border-color overflow-hidden group shadow-sm">
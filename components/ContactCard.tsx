@@ -0,0 +1,118 @@
+"use client";
+
+/**
+ * Contact details of the sender with tel:/mailto: links.
+ */
+
+import { ContactInfo, SenderInfo, SourceSpan } from "@/types";
+import { ReactNode } from "react";
+import {
+  Phone,
+  Printer,
+  Mail,
+  MapPin,
+  User,
+  DoorOpen,
+  Clock,
+} from "@/components/icons";
+import { SpanLink } from "./ExtractedData";
+
+interface ContactCardProps {
+  contact: ContactInfo;
+  sender?: SenderInfo;
+  /** Called to show the contact details in the letter */
+  onSelectSpan?: (span: SourceSpan) => void;
+}
+
+export function ContactCard({ contact, sender, onSelectSpan }: ContactCardProps) {
+  return (
+    <div className="bg-bg-secondary rounded-2xl p-8 border border-border-color shadow-sm transition-all hover:border-primary-orange/30">
+      <h3 className="text-xl font-bold text-text-primary mb-6 flex items-center gap-3">
+        <span className="w-8 h-8 rounded-full bg-primary-orange/10 flex items-center justify-center">
+          <Phone className="w-4 h-4 text-primary-orange" aria-hidden="true" />
+        </span>
+        {sender ? `Kontakt: ${sender.name}` : "Kontakt"}
+      </h3>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {contact.person && (
+          <ContactRow icon={<User className="w-4 h-4" aria-hidden="true" />} label="Sachbearbeitung">
+            {contact.person}
+          </ContactRow>
+        )}
+
+        {contact.numbers.map((entry) => (
+          <ContactRow
+            key={entry.href}
+            icon={entry.kind === "fax"
+              ? <Printer className="w-4 h-4" aria-hidden="true" />
+              : <Phone className="w-4 h-4" aria-hidden="true" />}
+            label={entry.kind === "fax" ? "Fax" : "Telefon"}
+          >
+            <a href={entry.href} className="text-primary-orange hover:underline">
+              {entry.number}
+            </a>
+          </ContactRow>
+        ))}
+
+        {contact.emails.map((email) => (
+          <ContactRow key={email} icon={<Mail className="w-4 h-4" aria-hidden="true" />} label="E-Mail">
+            <a href={`mailto:${email}`} className="text-primary-orange hover:underline break-all">
+              {email}
+            </a>
+          </ContactRow>
+        ))}
+
+        {contact.room && (
+          <ContactRow icon={<DoorOpen className="w-4 h-4" aria-hidden="true" />} label="Zimmer">
+            {contact.room}
+          </ContactRow>
+        )}
+
+        {contact.officeHours.length > 0 && (
+          <ContactRow icon={<Clock className="w-4 h-4" aria-hidden="true" />} label="Sprechzeiten">
+            {contact.officeHours.map((line, i) => (
+              <span key={i} className="block">{line}</span>
+            ))}
+          </ContactRow>
+        )}
+
+        {contact.postalAddress && (
+          <ContactRow icon={<MapPin className="w-4 h-4" aria-hidden="true" />} label="Postanschrift">
+            {contact.postalAddress}
+          </ContactRow>
+        )}
+
+        {contact.visitingAddress && (
+          <ContactRow icon={<MapPin className="w-4 h-4" aria-hidden="true" />} label="Besucheranschrift">
+            {contact.visitingAddress}
+          </ContactRow>
+        )}
+      </div>
+
+      {onSelectSpan && (
+        <p className="mt-6 text-sm">
+          <SpanLink span={contact} onSelectSpan={onSelectSpan}>Im Brief zeigen</SpanLink>
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface ContactRowProps {
+  icon: ReactNode;
+  label: string;
+  children: ReactNode;
+}
+
+function ContactRow({ icon, label, children }: ContactRowProps) {
+  return (
+    <div className="flex gap-3 items-start">
+      <span className="mt-1 text-primary-orange flex-shrink-0">{icon}</span>
+      <div>
+        <p className="text-xs font-medium text-text-secondary uppercase tracking-wider">{label}</p>
+        <div className="text-text-primary">{children}</div>
+      </div>
+    </div>
+  );
+}
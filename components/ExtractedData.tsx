@@ -4,21 +4,94 @@
  * Display extracted data from letter.
  */
 
-import { ExtractedData } from "@/types";
+import { DateRole, ExtractedData, ExtractedDate, ExtractedIBAN, LateChargeKind, SourceSpan } from "@/types";
 import { ReactNode } from "react";
-import { Coins, Calendar, Clock, FileText, Building2 } from "@/components/icons";
+import {
+  Coins,
+  Calendar,
+  Clock,
+  FileText,
+  Building2,
+  Landmark,
+  CheckCircle,
+  AlertTriangle,
+  QrCode,
+  Car,
+} from "@/components/icons";
+import { formatDate, formatDateWithWeekday } from "@/lib/calendar/dates";
+import { DATE_ROLE_LABELS } from "@/lib/extraction/dates";
+import { formatIBAN } from "@/lib/extraction/iban";
+import { AMOUNT_ROLE_LABELS, formatEuro } from "@/lib/extraction/amounts";
+import { SENDER_TYPE_LABELS } from "@/lib/extraction/authorities";
+import { REFERENCE_KIND_LABELS } from "@/lib/extraction/references";
+import { formatChargePeriod } from "@/lib/extraction/lateCharges";
+import { HighlightField } from "./TextPreview";
+
+/** Order in which date roles are displayed */
+const DATE_ROLE_ORDER: DateRole[] = [
+  "due_date",
+  "letter_date",
+  "notice_date",
+  "reference_date",
+  "hearing_date",
+  "period_start",
+  "period_end",
+  "unknown",
+];
+
+/** Card titles for recalculated late charges */
+const LATE_CHARGE_LABELS: Record<LateChargeKind, string> = {
+  late_surcharge: "Säumniszuschlag nachgerechnet",
+  default_interest: "Verzugszinsen nachgerechnet",
+};
+
+/**
+ * Group dates by role, dropping repeated mentions of the same day.
+ * Each day keeps the position of its first mention.
+ */
+function groupDatesByRole(dates: ExtractedDate[]): [DateRole, ExtractedDate[]][] {
+  return DATE_ROLE_ORDER
+    .map((role): [DateRole, ExtractedDate[]] => [
+      role,
+      dates
+        .filter((d) => d.role === role)
+        .filter((d, i, all) => all.findIndex((other) => other.date.getTime() === d.date.getTime()) === i),
+    ])
+    .filter(([, items]) => items.length > 0);
+}
+
+/**
+ * Extracted items that were read from the text, for highlighting in the letter.
+ */
+export function collectHighlightFields(data: ExtractedData): HighlightField[] {
+  const fields: HighlightField[] = [
+    ...(data.sender ? [{ span: data.sender, label: "Absender" }] : []),
+    ...data.amounts.map((a) => ({ span: a, label: AMOUNT_ROLE_LABELS[a.role] })),
+    ...data.dates.map((d) => ({ span: d, label: DATE_ROLE_LABELS[d.role] })),
+    ...data.references.map((r) => ({ span: r, label: REFERENCE_KIND_LABELS[r.kind] })),
+    ...data.ibans.map((i) => ({ span: i, label: "IBAN" })),
+    ...(data.extensions.licensePlate ? [{ span: data.extensions.licensePlate, label: "Kfz-Kennzeichen" }] : []),
+  ];
+  return fields.filter((field) => field.span.start >= 0);
+}
 
 interface ExtractedDataDisplayProps {
   data: ExtractedData;
+  /** Called when a field is clicked, to show it in the letter */
+  onSelectSpan?: (span: SourceSpan) => void;
 }
 
-export function ExtractedDataDisplay({ data }: ExtractedDataDisplayProps) {
+export function ExtractedDataDisplay({ data, onSelectSpan }: ExtractedDataDisplayProps) {
   const hasData =
+    data.sender !== undefined ||
     data.dates.length > 0 ||
     data.amounts.length > 0 ||
     data.references.length > 0 ||
     data.ibans.length > 0 ||
-    data.deadlineDays !== undefined;
+    data.deadlineDays !== undefined ||
+    data.deadlineDate !== undefined ||
+    (data.codes?.length ?? 0) > 0 ||
+    data.extensions.licensePlate !== undefined;
 
   if (!hasData) {
     return (
@@ -32,27 +105,89 @@ export function ExtractedDataDisplay({ data }: ExtractedDataDisplayProps) {
     <div className="space-y-4">
       <h3 className="text-lg font-semibold text-text-primary">Extrahierte Daten</h3>
 
+      {/* QR code / barcode disagrees with the OCR text */}
+      {data.codeWarnings && data.codeWarnings.length > 0 && (
+        <div className="p-4 rounded-xl border bg-red-500/10 border-red-500/50 space-y-1 text-sm text-red-600 dark:text-red-400">
+          {data.codeWarnings.map((warning) => (
+            <p key={warning} className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" aria-hidden="true" />
+              {warning}
+            </p>
+          ))}
+          <p className="text-xs text-text-secondary">Bitte vergleichen Sie die Angaben mit dem Original-Schreiben.</p>
+        </div>
+      )}
+
       <div className="grid gap-3 md:grid-cols-2">
+        {/* Sender */}
+        {data.sender && (
+          <DataCard
+            icon={<Landmark className="w-5 h-5 text-primary-orange" aria-hidden="true" />}
+            label="Absender"
+            items={[data.sender.name]}
+            spans={[data.sender]}
+            onSelectSpan={onSelectSpan}
+            note={data.sender.type !== "unknown" ? SENDER_TYPE_LABELS[data.sender.type] : undefined}
+          />
+        )}
+
+        {/* Amount to pay */}
+        {data.amountCheck && (
+          <DataCard
+            icon={<Coins className="w-5 h-5 text-yellow-500" aria-hidden="true" />}
+            label="Zu zahlen"
+            items={[formatEuro(data.amountCheck.amountDue)]}
+            spans={[[...data.amounts].reverse().find((a) => a.value === data.amountCheck?.amountDue)]}
+            onSelectSpan={onSelectSpan}
+            note={
+              data.amountCheck.isConsistent
+                ? undefined
+                : `Achtung: Die Einzelbeträge ergeben ${formatEuro(data.amountCheck.componentsSum ?? 0)}, ` +
+                  `genannt werden ${formatEuro(data.amountCheck.amountDue)} ` +
+                  `(Differenz ${formatEuro(data.amountCheck.difference ?? 0)}). Bitte nachfragen.`
+            }
+            highlight
+          />
+        )}
+
         {/* Amounts */}
         {data.amounts.length > 0 && (
           <DataCard
             icon={<Coins className="w-5 h-5 text-primary-orange" aria-hidden="true" />}
             label="Beträge"
-            items={data.amounts.map((a) => a.formatted)}
+            items={data.amounts.map((a) => `${AMOUNT_ROLE_LABELS[a.role]}: ${a.formatted}`)}
+            spans={data.amounts}
+            onSelectSpan={onSelectSpan}
           />
         )}
 
-        {/* Dates */}
-        {data.dates.length > 0 && (
-          <DataCard 
-            icon={<Calendar className="w-5 h-5 text-primary-orange" aria-hidden="true" />} 
-            label="Daten" 
-            items={data.dates} 
+        {/* Dates, one card per role */}
+        {groupDatesByRole(data.dates).map(([role, dates]) => (
+          <DataCard
+            key={role}
+            icon={<Calendar className="w-5 h-5 text-primary-orange" aria-hidden="true" />}
+            label={DATE_ROLE_LABELS[role]}
+            items={dates.map((d) => formatDate(d.date))}
+            spans={dates}
+            onSelectSpan={onSelectSpan}
+          />
+        ))}
+
+        {/* Resolved due date */}
+        {data.deadlineDate !== undefined && (
+          <DataCard
+            icon={<Clock className="w-5 h-5 text-yellow-500" aria-hidden="true" />}
+            label="Fällig bis"
+            items={[formatDateWithWeekday(data.deadlineDate)]}
+            spans={[data.deadlineSpan]}
+            onSelectSpan={onSelectSpan}
+            note={data.deadlineNote}
+            highlight
           />
         )}
 
         {/* Deadline */}
-        {data.deadlineDays !== undefined && (
+        {data.deadlineDays !== undefined && data.deadlineDate === undefined && (
           <DataCard
             icon={<Clock className="w-5 h-5 text-yellow-500" aria-hidden="true" />}
             label="Frist"
@@ -65,19 +200,92 @@ export function ExtractedDataDisplay({ data }: ExtractedDataDisplayProps) {
         {data.references.length > 0 && (
           <DataCard 
             icon={<FileText className="w-5 h-5 text-primary-orange" aria-hidden="true" />} 
-            label="Aktenzeichen" 
-            items={data.references} 
+            label="Aktenzeichen & Nummern"
+            items={data.references.map((r) =>
+              `${REFERENCE_KIND_LABELS[r.kind]}: ${r.value}${r.isValid === false ? " (ungültig?)" : ""}`
+            )}
+            spans={data.references}
+            onSelectSpan={onSelectSpan}
           />
         )}
 
-        {/* IBANs */}
-        {data.ibans.length > 0 && (
-          <DataCard 
-            icon={<Building2 className="w-5 h-5 text-primary-orange" aria-hidden="true" />} 
-            label="IBAN" 
-            items={data.ibans} 
+        {/* Kfz-Kennzeichen (Bußgeld) */}
+        {data.extensions.licensePlate && (
+          <DataCard
+            icon={<Car className="w-5 h-5 text-primary-orange" aria-hidden="true" />}
+            label="Kfz-Kennzeichen"
+            items={[data.extensions.licensePlate.value]}
+            spans={[data.extensions.licensePlate]}
+            onSelectSpan={onSelectSpan}
+          />
+        )}
+
+        {/* QR codes and barcodes */}
+        {data.codes && data.codes.length > 0 && (
+          <DataCard
+            icon={<QrCode className="w-5 h-5 text-primary-orange" aria-hidden="true" />}
+            label="QR-/Barcode"
+            items={data.codes.map((code) =>
+              code.payment
+                ? `GiroCode an ${code.payment.name}` +
+                  (Number.isFinite(code.payment.amount) ? `: ${formatEuro(code.payment.amount)}` : "")
+                : code.value
+            )}
+          />
+        )}
+
+        {/* Recalculated Säumniszuschlag / Verzugszinsen */}
+        {data.lateCharges?.map((check) => (
+          <ChargeCheckCard
+            key={check.kind}
+            label={LATE_CHARGE_LABELS[check.kind]}
+            stated={check.stated}
+            maximum={check.expected}
+            note={`${formatChargePeriod(check)} · ${check.note}`}
+            isPlausible={check.isPlausible}
+            span={check}
+            onSelectSpan={onSelectSpan}
+          />
+        ))}
+
+        {/* Inkassokosten (§ 13e RDG) */}
+        {data.collectionFees && (
+          <ChargeCheckCard
+            label="Inkassokosten nachgerechnet"
+            stated={data.collectionFees.stated}
+            maximum={data.collectionFees.maximum}
+            note={data.collectionFees.note}
+            isPlausible={data.collectionFees.isPlausible}
+            span={data.collectionFees}
+            onSelectSpan={onSelectSpan}
+          />
+        )}
+
+        {/* Verjährung (§§ 195, 199 BGB) */}
+        {data.limitation && (
+          <DataCard
+            icon={<Clock className="w-5 h-5 text-yellow-500" aria-hidden="true" />}
+            label="Verjährung"
+            items={[
+              data.limitation.mayBeExpired
+                ? `Frist möglicherweise am ${formatDate(data.limitation.expiresAt)} abgelaufen`
+                : `Verjährt frühestens mit Ablauf des ${formatDate(data.limitation.expiresAt)}`,
+            ]}
+            spans={[data.limitation]}
+            onSelectSpan={onSelectSpan}
+            note={[
+              `Forderung aus ${data.limitation.claimYear} („${data.limitation.source}“).`,
+              data.limitation.note,
+              "Nur ein Hinweis – bitte prüfen lassen.",
+            ].filter(Boolean).join(" ")}
+            highlight={data.limitation.mayBeExpired}
           />
         )}
+
+        {/* IBANs */}
+        {data.ibans.map((iban) => (
+          <IbanCard key={iban.iban} iban={iban} onSelectSpan={onSelectSpan} />
+        ))}
       </div>
     </div>
   );
@@ -87,10 +295,14 @@ interface DataCardProps {
   icon: ReactNode;
   label: string;
   items: string[];
+  /** Position of each item in the letter, same order as items */
+  spans?: (SourceSpan | undefined)[];
+  onSelectSpan?: (span: SourceSpan) => void;
+  note?: string;
   highlight?: boolean;
 }
 
-function DataCard({ icon, label, items, highlight = false }: DataCardProps) {
+function DataCard({ icon, label, items, spans, onSelectSpan, note, highlight = false }: DataCardProps) {
   return (
     <div
       className={`
@@ -110,10 +322,130 @@ function DataCard({ icon, label, items, highlight = false }: DataCardProps) {
             key={i}
             className={`font-mono ${highlight ? "text-yellow-500" : "text-text-primary"}`}
           >
-            {item}
+            <SpanLink span={spans?.[i]} onSelectSpan={onSelectSpan}>{item}</SpanLink>
           </p>
         ))}
       </div>
+      {note && <p className="mt-2 text-xs text-text-secondary">{note}</p>}
+    </div>
+  );
+}
+
+interface SpanLinkProps {
+  span?: SourceSpan;
+  onSelectSpan?: (span: SourceSpan) => void;
+  children: ReactNode;
+}
+
+/** Item that shows its place in the letter when clicked */
+export function SpanLink({ span, onSelectSpan, children }: SpanLinkProps) {
+  if (!span || span.start < 0 || !onSelectSpan) return <>{children}</>;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelectSpan(span)}
+      className="text-left underline decoration-dotted underline-offset-4 hover:text-primary-orange transition-colors"
+      title={`Im Brief zeigen (${Math.round(span.confidence * 100)} % sicher erkannt)`}
+    >
+      {children}
+    </button>
+  );
+}
+
+interface IbanCardProps {
+  iban: ExtractedIBAN;
+  onSelectSpan?: (span: SourceSpan) => void;
+}
+
+function IbanCard({ iban, onSelectSpan }: IbanCardProps) {
+  return (
+    <div
+      className={`
+        p-4 rounded-xl border
+        ${iban.isValid
+          ? "bg-bg-secondary border-border-color"
+          : "bg-red-500/10 border-red-500/50"}
+      `}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <Building2 className="w-5 h-5 text-primary-orange" aria-hidden="true" />
+        <span className="text-sm font-medium text-text-secondary">IBAN</span>
+      </div>
+      <p className="font-mono text-text-primary">
+        <SpanLink span={iban} onSelectSpan={onSelectSpan}>{iban.formatted}</SpanLink>
+      </p>
+      {(iban.bankName || iban.bic) && (
+        <p className="mt-1 text-xs text-text-secondary">
+          {[iban.bankName, iban.bic && `BIC ${iban.bic}`].filter(Boolean).join(" · ")}
+        </p>
+      )}
+      {iban.isValid ? (
+        <p className="mt-2 flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+          <CheckCircle className="w-3 h-3" aria-hidden="true" />
+          Prüfsumme gültig
+        </p>
+      ) : (
+        <div className="mt-2 space-y-1 text-xs text-red-600 dark:text-red-400">
+          <p className="flex items-center gap-1 font-medium">
+            <AlertTriangle className="w-3 h-3" aria-hidden="true" />
+            Prüfsumme ungültig – vermutlich falsch erkannt. Nicht so überweisen!
+          </p>
+          {iban.suggestion && (
+            <p>
+              Wahrscheinlich gemeint:{" "}
+              <span className="font-mono">{formatIBAN(iban.suggestion)}</span>
+              {" "}– bitte mit dem Original vergleichen.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ChargeCheckCardProps {
+  label: string;
+  stated: number;
+  maximum: number;
+  note: string;
+  isPlausible: boolean;
+  /** Position of the stated charge in the letter */
+  span?: SourceSpan;
+  onSelectSpan?: (span: SourceSpan) => void;
+}
+
+/** Stated charge next to the recalculated legal maximum */
+function ChargeCheckCard({ label, stated, maximum, note, isPlausible, span, onSelectSpan }: ChargeCheckCardProps) {
+  return (
+    <div
+      className={`
+        p-4 rounded-xl border
+        ${isPlausible
+          ? "bg-bg-secondary border-border-color"
+          : "bg-red-500/10 border-red-500/50"}
+      `}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <Coins className="w-5 h-5 text-primary-orange" aria-hidden="true" />
+        <span className="text-sm font-medium text-text-secondary">{label}</span>
+      </div>
+      <p className="font-mono text-text-primary">
+        Genannt: <SpanLink span={span} onSelectSpan={onSelectSpan}>{formatEuro(stated)}</SpanLink>
+      </p>
+      <p className="font-mono text-text-primary">Höchstens: {formatEuro(maximum)}</p>
+      <p className="mt-1 text-xs text-text-secondary">{note}</p>
+      {isPlausible ? (
+        <p className="mt-2 flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+          <CheckCircle className="w-3 h-3" aria-hidden="true" />
+          Betrag plausibel
+        </p>
+      ) : (
+        <p className="mt-2 flex items-center gap-1 text-xs font-medium text-red-600 dark:text-red-400">
+          <AlertTriangle className="w-3 h-3" aria-hidden="true" />
+          Höher als gesetzlich vorgesehen – fordern Sie eine Aufstellung der Berechnung an.
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,177 @@
+"use client";
+
+/**
+ * GiroCode for the payment found in the letter.
+ * The prefilled details must be checked (and can be corrected) before the
+ * QR code is shown.
+ */
+
+import { useState } from "react";
+import { PaymentDetails } from "@/types";
+import { QrCode, AlertTriangle, CheckCircle } from "@/components/icons";
+import { generateGiroCode, validatePaymentDetails } from "@/lib/payment/girocode";
+import { formatIBAN } from "@/lib/extraction/iban";
+import { formatEuro, parseGermanNumber } from "@/lib/extraction/amounts";
+
+interface GiroCodeCardProps {
+  initialDetails: PaymentDetails;
+}
+
+/** Form state keeps the amount as typed ("1.234,56") */
+interface FormState {
+  name: string;
+  iban: string;
+  bic: string;
+  amount: string;
+  reference: string;
+}
+
+function toFormState(details: PaymentDetails): FormState {
+  return {
+    name: details.name,
+    iban: formatIBAN(details.iban),
+    bic: details.bic ?? "",
+    amount: Number.isFinite(details.amount) ? details.amount.toFixed(2).replace(".", ",") : "",
+    reference: details.reference,
+  };
+}
+
+/** "365.00": a single dot before one or two digits, as typed on keyboards without a comma */
+const DECIMAL_DOT_PATTERN = /^\d+\.\d{1,2}$/;
+
+/**
+ * Parse the typed amount. German input ("1.234,56") is the default; a
+ * single dot before one or two digits is the decimal separator.
+ */
+function parseAmountInput(value: string): number {
+  const amount = value.replace(/\s|€/g, "");
+  return DECIMAL_DOT_PATTERN.test(amount) ? parseFloat(amount) : parseGermanNumber(amount);
+}
+
+function toPaymentDetails(form: FormState): PaymentDetails {
+  return {
+    name: form.name.trim(),
+    iban: form.iban.replace(/\s/g, "").toUpperCase(),
+    bic: form.bic.trim() || undefined,
+    amount: parseAmountInput(form.amount),
+    reference: form.reference.trim(),
+  };
+}
+
+export function GiroCodeCard({ initialDetails }: GiroCodeCardProps) {
+  const [form, setForm] = useState<FormState>(() => toFormState(initialDetails));
+  const [isConfirmed, setIsConfirmed] = useState(false);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const details = toPaymentDetails(form);
+  const errors = validatePaymentDetails(details);
+
+  const updateField = (field: keyof FormState, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    // Any change invalidates the confirmation and the generated code
+    setIsConfirmed(false);
+    setQrCode(null);
+  };
+
+  const handleGenerate = async () => {
+    if (errors.length > 0 || !isConfirmed) return;
+    try {
+      setError(null);
+      setQrCode(await generateGiroCode(details));
+    } catch (err) {
+      console.error("[GiroCode] Failed to generate QR code:", err);
+      setError("Der GiroCode konnte nicht erstellt werden.");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 bg-bg-primary border border-border-color rounded-lg text-text-primary focus:outline-none focus:border-primary-orange";
+
+  return (
+    <div className="bg-bg-secondary rounded-2xl p-8 border border-border-color shadow-sm transition-all hover:border-primary-orange/30">
+      <h3 className="text-xl font-bold text-text-primary mb-2 flex items-center gap-3">
+        <span className="w-8 h-8 rounded-full bg-primary-orange/10 flex items-center justify-center">
+          <QrCode className="w-4 h-4 text-primary-orange" aria-hidden="true" />
+        </span>
+        GiroCode zum Bezahlen
+      </h3>
+      <p className="text-sm text-text-secondary mb-6">
+        Bitte vergleichen Sie alle Angaben mit dem Original-Schreiben, bevor Sie den Code mit Ihrer Banking-App scannen.
+      </p>
+
+      {qrCode ? (
+        <div className="flex flex-col items-center gap-4">
+          <img src={qrCode} alt="GiroCode für die Überweisung" className="w-64 h-64 bg-white rounded-lg" />
+          <p className="text-sm text-text-secondary text-center">
+            {details.name} · {formatIBAN(details.iban)} · {formatEuro(details.amount)}
+            {details.reference && <><br />{details.reference}</>}
+          </p>
+          <button
+            onClick={() => setQrCode(null)}
+            className="text-sm text-primary-orange hover:underline"
+          >
+            Angaben bearbeiten
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="block text-sm text-text-secondary">
+              Empfänger
+              <input className={inputClass} value={form.name} onChange={(e) => updateField("name", e.target.value)} />
+            </label>
+            <label className="block text-sm text-text-secondary">
+              Betrag (EUR)
+              <input className={inputClass} inputMode="decimal" value={form.amount} onChange={(e) => updateField("amount", e.target.value)} />
+            </label>
+            <label className="block text-sm text-text-secondary">
+              IBAN
+              <input className={`${inputClass} font-mono`} value={form.iban} onChange={(e) => updateField("iban", e.target.value)} />
+            </label>
+            <label className="block text-sm text-text-secondary">
+              BIC (optional)
+              <input className={`${inputClass} font-mono`} value={form.bic} onChange={(e) => updateField("bic", e.target.value)} />
+            </label>
+          </div>
+          <label className="block text-sm text-text-secondary">
+            Verwendungszweck
+            <input className={inputClass} value={form.reference} onChange={(e) => updateField("reference", e.target.value)} />
+          </label>
+
+          {errors.length > 0 && (
+            <ul className="space-y-1 text-xs text-red-600 dark:text-red-400">
+              {errors.map((message) => (
+                <li key={message} className="flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3" aria-hidden="true" />
+                  {message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <label className="flex items-start gap-2 text-sm text-text-primary">
+            <input
+              type="checkbox"
+              checked={isConfirmed}
+              onChange={(e) => setIsConfirmed(e.target.checked)}
+              className="mt-1"
+            />
+            Ich habe Empfänger, IBAN, Betrag und Verwendungszweck mit dem Original verglichen.
+          </label>
+
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          <button
+            onClick={handleGenerate}
+            disabled={errors.length > 0 || !isConfirmed}
+            className="px-6 py-3 bg-primary-orange hover:bg-primary-orange-dark disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-xl font-bold transition-colors flex items-center gap-2"
+          >
+            <CheckCircle className="w-4 h-4" aria-hidden="true" />
+            GiroCode anzeigen
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
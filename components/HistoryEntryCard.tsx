@@ -9,6 +9,7 @@ import { useState } from "react";
 import { HistoryEntry } from "@/types";
 import { formatRelativeTime, getInputSourceLabel } from "@/lib/history";
 import { CATEGORY_LABELS } from "@/lib/scoring/keywords";
+import { SENDER_TYPE_LABELS } from "@/lib/extraction/authorities";
 
 interface HistoryEntryCardProps {
   entry: HistoryEntry;
@@ -58,10 +59,17 @@ export function HistoryEntryCard({ entry, onDelete }: HistoryEntryCardProps) {
             </span>
           </div>
 
-          {/* Preview text */}
-          <p className="text-sm text-text-secondary truncate">
-            {entry.preview}
-          </p>
+          {/* Sender, or preview text for entries without one */}
+          {entry.sender ? (
+            <p className="text-sm text-text-secondary truncate">
+              <span className="text-text-primary">{entry.sender.name}</span>
+              {entry.sender.type !== "unknown" && ` · ${SENDER_TYPE_LABELS[entry.sender.type]}`}
+            </p>
+          ) : (
+            <p className="text-sm text-text-secondary truncate">
+              {entry.preview}
+            </p>
+          )}
         </div>
 
         {/* Timestamp and expand icon */}
@@ -93,6 +101,11 @@ export function HistoryEntryCard({ entry, onDelete }: HistoryEntryCardProps) {
             </span>
           </div>
 
+          {/* Preview text (shown in the header when there is no sender) */}
+          {entry.sender && (
+            <p className="text-sm text-text-secondary">{entry.preview}</p>
+          )}
+
           {/* Summary */}
           <div>
             <h4 className="text-xs font-medium text-text-secondary uppercase tracking-wider mb-2">
@@ -0,0 +1,90 @@
+"use client";
+
+/**
+ * Ratenzahlung or Stundung: terms and the payment timeline.
+ */
+
+import { InstalmentPlan, SourceSpan } from "@/types";
+import { CalendarClock } from "@/components/icons";
+import { formatDate, formatDateWithWeekday, startOfDay } from "@/lib/calendar/dates";
+import { formatEuro } from "@/lib/extraction/amounts";
+import { INSTALMENT_PLAN_LABELS } from "@/lib/extraction/instalments";
+import { SpanLink } from "./ExtractedData";
+
+interface InstalmentPlanCardProps {
+  plan: InstalmentPlan;
+  /** Called to show the plan in the letter */
+  onSelectSpan?: (span: SourceSpan) => void;
+}
+
+export function InstalmentPlanCard({ plan, onSelectSpan }: InstalmentPlanCardProps) {
+  const today = startOfDay(new Date());
+  const nextIndex = plan.schedule.findIndex((instalment) => instalment.dueDate >= today);
+
+  const terms = [
+    plan.count !== undefined && `${plan.count} Raten`,
+    plan.amount !== undefined && `je ${formatEuro(plan.amount)}`,
+    plan.dueDay !== undefined && `fällig zum ${plan.dueDay}. eines Monats`,
+    plan.firstDueDate && `erste Rate am ${formatDate(plan.firstDueDate)}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-bg-secondary rounded-2xl p-8 border border-border-color shadow-sm transition-all hover:border-primary-orange/30">
+      <h3 className="text-xl font-bold text-text-primary mb-2 flex items-center gap-3">
+        <span className="w-8 h-8 rounded-full bg-primary-orange/10 flex items-center justify-center">
+          <CalendarClock className="w-4 h-4 text-primary-orange" aria-hidden="true" />
+        </span>
+        {INSTALMENT_PLAN_LABELS[plan.kind]}
+        {plan.status === "offered" ? " angeboten" : " bewilligt"}
+      </h3>
+
+      {plan.status === "offered" && (
+        <p className="text-sm text-text-secondary mb-4">
+          Das Schreiben bietet diese Möglichkeit an. Sie gilt erst, wenn Sie sie beantragen und der Absender zustimmt.
+        </p>
+      )}
+
+      {terms.length > 0 && <p className="text-text-primary mb-4">{terms.join(" · ")}</p>}
+
+      {plan.deferredUntil && (
+        <p className="text-text-primary mb-4">
+          Gestundet bis <span className="font-mono text-yellow-500">{formatDateWithWeekday(plan.deferredUntil)}</span>
+        </p>
+      )}
+
+      {plan.schedule.length > 0 && (
+        <ol className="relative border-l border-border-color ml-2 space-y-3">
+          {plan.schedule.map((instalment, i) => {
+            const isPast = instalment.dueDate < today;
+            const isNext = i === nextIndex;
+            return (
+              <li key={instalment.number} className="ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border ${
+                    isNext
+                      ? "bg-yellow-500 border-yellow-500"
+                      : isPast
+                        ? "bg-border-color border-border-color"
+                        : "bg-bg-primary border-primary-orange"
+                  }`}
+                  aria-hidden="true"
+                />
+                <p className={`font-mono ${isPast ? "text-text-secondary" : isNext ? "text-yellow-500" : "text-text-primary"}`}>
+                  {instalment.number}. Rate · {formatDateWithWeekday(instalment.dueDate)}
+                  {instalment.amount !== undefined && ` · ${formatEuro(instalment.amount)}`}
+                  {isNext && " (nächste Rate)"}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {onSelectSpan && (
+        <p className="mt-6 text-sm">
+          <SpanLink span={plan} onSelectSpan={onSelectSpan}>Im Brief zeigen</SpanLink>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+/**
+ * Rechtsbehelfsbelehrung: remedy, appeal deadline, where and how to file.
+ */
+
+import { LegalRemedy, SourceSpan } from "@/types";
+import { Scale } from "@/components/icons";
+import { formatDateWithWeekday } from "@/lib/calendar/dates";
+import { FILING_FORM_LABELS, LEGAL_REMEDY_LABELS } from "@/lib/extraction/legalRemedy";
+import { SpanLink } from "./ExtractedData";
+
+interface LegalRemedyCardProps {
+  remedy: LegalRemedy;
+  /** Called to show the Rechtsbehelfsbelehrung in the letter */
+  onSelectSpan?: (span: SourceSpan) => void;
+}
+
+export function LegalRemedyCard({ remedy, onSelectSpan }: LegalRemedyCardProps) {
+  const label = LEGAL_REMEDY_LABELS[remedy.type];
+
+  return (
+    <div className="bg-bg-secondary rounded-2xl p-8 border border-yellow-500/50 shadow-sm">
+      <h3 className="text-xl font-bold text-text-primary mb-6 flex items-center gap-3">
+        <span className="w-8 h-8 rounded-full bg-yellow-500/10 flex items-center justify-center">
+          <Scale className="w-4 h-4 text-yellow-500" aria-hidden="true" />
+        </span>
+        Rechtsbehelf: {label}
+      </h3>
+
+      <dl className="grid gap-4 md:grid-cols-2">
+        <div>
+          <dt className="text-xs font-medium text-text-secondary uppercase tracking-wider">
+            {label} möglich bis
+          </dt>
+          <dd className="font-mono text-lg text-yellow-500">
+            {remedy.deadline ? formatDateWithWeekday(remedy.deadline) : "Frist nicht erkannt"}
+          </dd>
+          {(remedy.deadlineNote || remedy.period) && (
+            <dd className="mt-1 text-xs text-text-secondary">
+              {remedy.deadlineNote ?? remedy.period}
+            </dd>
+          )}
+        </div>
+
+        {remedy.authority && (
+          <div>
+            <dt className="text-xs font-medium text-text-secondary uppercase tracking-wider">
+              Einzulegen bei
+            </dt>
+            <dd className="text-text-primary">{remedy.authority}</dd>
+          </div>
+        )}
+
+        {remedy.forms.length > 0 && (
+          <div>
+            <dt className="text-xs font-medium text-text-secondary uppercase tracking-wider">
+              Form
+            </dt>
+            <dd className="text-text-primary">
+              {remedy.forms.map((form) => FILING_FORM_LABELS[form]).join(", ")}
+            </dd>
+          </div>
+        )}
+      </dl>
+
+      <p className="mt-6 text-xs text-text-secondary">
+        Nach Ablauf dieser Frist wird der Bescheid bestandskräftig – auch wenn er fehlerhaft ist.
+        Eine E-Mail ohne qualifizierte Signatur genügt in der Regel nicht.
+      </p>
+
+      {onSelectSpan && (
+        <p className="mt-6 text-sm">
+          <SpanLink span={remedy} onSelectSpan={onSelectSpan}>Im Brief zeigen</SpanLink>
+        </p>
+      )}
+    </div>
+  );
+}
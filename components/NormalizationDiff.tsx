@@ -0,0 +1,216 @@
+"use client";
+
+/**
+ * OCR output next to the cleaned text, with every normalization change
+ * marked. Corrections that can change a word are listed and can be
+ * accepted or rejected before the letter is scored.
+ */
+
+import { useState, useMemo } from "react";
+import { NormalizationChange } from "@/types";
+import { NORMALIZATION_RULE_LABELS, isCorrection } from "@/lib/normalization/text";
+import { getHighlightSpans } from "@/lib/scoring/highlighter";
+import { ChevronDown } from "./icons";
+
+interface NormalizationDiffProps {
+  rawText: string;
+  normalizedText: string;
+  changes: NormalizationChange[];
+  onToggleChange: (change: NormalizationChange) => void;
+}
+
+/** Marked range in the raw or the normalized text */
+interface Mark {
+  start: number;
+  end: number;
+  change: NormalizationChange;
+}
+
+/** Letters and digits a correction's context word is made of */
+const WORD_CHAR_PATTERN = /[A-Za-zÄÖÜäöüß0-9]/;
+
+/**
+ * Non-empty, non-overlapping marks in text order. Where changes overlap,
+ * the earlier one wins, and a correction wins over a layout change.
+ */
+function toMarks(changes: NormalizationChange[], side: "raw" | "normalized"): Mark[] {
+  const marks = changes
+    .map((change) => side === "raw"
+      ? { start: change.rawStart, end: change.rawEnd, change }
+      : { start: change.start, end: change.end, change })
+    .filter((mark) => mark.end > mark.start)
+    .sort((a, b) => a.start - b.start || Number(isCorrection(b.change)) - Number(isCorrection(a.change)));
+
+  let lastEnd = 0;
+  return marks.filter((mark) => {
+    if (mark.start < lastEnd) return false;
+    lastEnd = mark.end;
+    return true;
+  });
+}
+
+/**
+ * The raw word a change sits in, before and after the change.
+ */
+function describeChange(rawText: string, change: NormalizationChange): { before: string; after: string } {
+  let start = change.rawStart;
+  let end = change.rawEnd;
+  while (start > 0 && WORD_CHAR_PATTERN.test(rawText[start - 1])) start--;
+  while (end < rawText.length && WORD_CHAR_PATTERN.test(rawText[end])) end++;
+
+  const prefix = rawText.substring(start, change.rawStart);
+  const suffix = rawText.substring(change.rawEnd, end);
+  return {
+    before: rawText.substring(start, end),
+    after: `${prefix}${change.after}${suffix}`,
+  };
+}
+
+/**
+ * Make line breaks and spaces of a change visible.
+ */
+function showWhitespace(text: string): string {
+  return text.length === 0 ? "(leer)" : text.replace(/\n/g, "↵").replace(/ /g, "·");
+}
+
+function markClass(change: NormalizationChange, side: "raw" | "normalized"): string {
+  if (!change.accepted) return "diff-rejected";
+  if (!isCorrection(change)) return "diff-layout";
+  return side === "raw" ? "diff-removed" : "diff-added";
+}
+
+interface MarkedTextProps {
+  text: string;
+  marks: Mark[];
+  side: "raw" | "normalized";
+}
+
+function MarkedText({ text, marks, side }: MarkedTextProps) {
+  const elements: React.ReactNode[] = [];
+  let lastEnd = 0;
+
+  marks.forEach((mark, index) => {
+    if (mark.start > lastEnd) {
+      elements.push(<span key={`text-${index}`}>{text.substring(lastEnd, mark.start)}</span>);
+    }
+
+    const { change } = mark;
+    elements.push(
+      <span
+        key={`mark-${index}`}
+        className={markClass(change, side)}
+        title={`${NORMALIZATION_RULE_LABELS[change.rule]}: ${showWhitespace(change.before)} → ${showWhitespace(change.after)}${change.accepted ? "" : " (verworfen)"}`}
+      >
+        {text.substring(mark.start, mark.end)}
+      </span>
+    );
+    lastEnd = mark.end;
+  });
+
+  if (lastEnd < text.length) {
+    elements.push(<span key="text-end">{text.substring(lastEnd)}</span>);
+  }
+
+  return (
+    <div className="bg-bg-primary border border-border-color rounded-lg p-4 font-mono text-xs leading-relaxed whitespace-pre-wrap max-h-80 overflow-y-auto">
+      {elements}
+    </div>
+  );
+}
+
+export function NormalizationDiff({
+  rawText,
+  normalizedText,
+  changes,
+  onToggleChange,
+}: NormalizationDiffProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const rawMarks = useMemo(() => toMarks(changes, "raw"), [changes]);
+  const normalizedMarks = useMemo(() => toMarks(changes, "normalized"), [changes]);
+
+  const corrections = useMemo(
+    () => changes.filter(isCorrection).sort((a, b) => a.rawStart - b.rawStart),
+    [changes]
+  );
+  const layoutCount = changes.length - corrections.length;
+
+  // Corrections inside a keyword change what the traffic light sees
+  const keywordSpans = useMemo(() => getHighlightSpans(normalizedText).spans, [normalizedText]);
+  const touchesKeyword = (change: NormalizationChange) =>
+    keywordSpans.some((span) => change.start < span.end && change.end > span.start);
+
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="bg-bg-secondary rounded-lg border border-border-color">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-4 p-3 text-left"
+        aria-expanded={isOpen}
+      >
+        <span className="text-sm text-text-secondary">
+          <span className="font-medium text-text-primary">Textbereinigung:</span>{" "}
+          {corrections.length} {corrections.length === 1 ? "Korrektur" : "Korrekturen"},{" "}
+          {layoutCount} {layoutCount === 1 ? "Layout-Änderung" : "Layout-Änderungen"}
+        </span>
+        <ChevronDown
+          className={`w-4 h-4 text-text-secondary transition-transform ${isOpen ? "rotate-180" : ""}`}
+          aria-hidden="true"
+        />
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-4">
+          {/* OCR output and cleaned text side by side */}
+          <div className="grid gap-3 md:grid-cols-2">
+            <div>
+              <p className="text-xs font-medium text-text-secondary uppercase tracking-wider mb-2">
+                Erkannter Text
+              </p>
+              <MarkedText text={rawText} marks={rawMarks} side="raw" />
+            </div>
+            <div>
+              <p className="text-xs font-medium text-text-secondary uppercase tracking-wider mb-2">
+                Bereinigter Text
+              </p>
+              <MarkedText text={normalizedText} marks={normalizedMarks} side="normalized" />
+            </div>
+          </div>
+
+          {/* Corrections to accept or reject */}
+          {corrections.length > 0 && (
+            <ul className="divide-y divide-border-color">
+              {corrections.map((change) => {
+                const { before, after } = describeChange(rawText, change);
+                return (
+                  <li key={change.id} className="flex items-center justify-between gap-4 py-2">
+                    <div className="min-w-0">
+                      <p className={`font-mono text-sm ${change.accepted ? "text-text-primary" : "text-text-secondary"}`}>
+                        {showWhitespace(before)} → <span className={change.accepted ? "" : "line-through"}>{showWhitespace(after)}</span>
+                      </p>
+                      <p className="text-xs text-text-secondary">
+                        {NORMALIZATION_RULE_LABELS[change.rule]}
+                        {touchesKeyword(change) && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-primary-orange/10 text-primary-orange">
+                            betrifft Schlüsselwort
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => onToggleChange(change)}
+                      className="shrink-0 px-3 py-1 text-xs rounded-lg border border-border-color text-text-secondary hover:text-primary-orange hover:border-primary-orange/50 transition-colors"
+                    >
+                      {change.accepted ? "Verwerfen" : "Übernehmen"}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -77,7 +77,7 @@ export function Sidebar() {
                     <div className="flex items-center gap-2">
                       <span className={`w-2 h-2 rounded-full flex-shrink-0 ${urgencyColors[entry.urgency]}`} />
                       <span className="text-sm text-text-primary truncate flex-1">
-                        {entry.preview.substring(0, 30)}...
+                        {entry.sender?.name ?? `${entry.preview.substring(0, 30)}...`}
                       </span>
                     </div>
                     <div className="flex items-center gap-2 mt-1 ml-4">
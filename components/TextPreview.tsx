@@ -3,17 +3,50 @@
 /**
  * Text preview component with keyword highlighting.
  * Works for plain text input, OCR'd content, and extracted PDF text.
+ * Extracted fields (amounts, dates, IBANs, ...) can be highlighted as well,
+ * and words OCR read with low confidence are underlined.
  */
 
-import { useState, useMemo, useCallback, useRef } from "react";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
+import { SourceSpan, UncertainWord } from "@/types";
 import { getHighlightSpans, HighlightSpan, HighlightResult } from "@/lib/scoring/highlighter";
 import { HighlightTooltip } from "./HighlightTooltip";
 
+/** Extracted item to highlight, with its label for the tooltip */
+export interface HighlightField {
+  span: SourceSpan;
+  label: string;
+}
+
+/** Keyword or field, in text order */
+type Segment =
+  | { start: number; end: number; keyword: HighlightSpan }
+  | { start: number; end: number; field: HighlightField };
+
+/** Label of a focused span that is none of the fields, e.g. a whole section */
+const FOCUSED_LABEL = "Im Brief markiert";
+
+/** Lowest confidence of the uncertain words overlapping [start, end), or null */
+function lowestConfidence(words: UncertainWord[], start: number, end: number): number | null {
+  const overlapping = words.filter((word) => word.start < end && word.end > start);
+  return overlapping.length > 0 ? Math.min(...overlapping.map((word) => word.confidence)) : null;
+}
+
+function uncertainTitle(confidence: number): string {
+  return `Unsicher erkannt (${Math.round(confidence * 100)} %) – bitte mit dem Original vergleichen`;
+}
+
 interface TextPreviewProps {
   text: string;
   showNeutralized?: boolean;
   showGreen?: boolean;
   onAnalyze?: () => void;
+  /** Extracted items; offsets refer to `text` */
+  fields?: HighlightField[];
+  /** Field or section to scroll to and emphasise */
+  focusedSpan?: SourceSpan | null;
+  /** Low-confidence OCR words in text order; offsets refer to `text` */
+  uncertainWords?: UncertainWord[];
 }
 
 export function TextPreview({
@@ -21,6 +54,9 @@ export function TextPreview({
   showNeutralized = true,
   showGreen = true,
   onAnalyze,
+  fields = [],
+  focusedSpan = null,
+  uncertainWords = [],
 }: TextPreviewProps) {
   const [selectedSpan, setSelectedSpan] = useState<HighlightSpan | null>(null);
   const [anchorRect, setAnchorRect] = useState<DOMRect | null>(null);
@@ -40,6 +76,42 @@ export function TextPreview({
     });
   }, [highlightResult.spans, showNeutralized, showGreen]);
 
+  // Keywords and fields in text order; a later segment overlapping an
+  // earlier one is dropped. A focused span that is none of the fields
+  // (contact block, Rechtsbehelfsbelehrung) replaces what it overlaps.
+  const segments = useMemo<Segment[]>(() => {
+    const isFocusedField = fields.some(
+      (field) => field.span.start === focusedSpan?.start && field.span.end === focusedSpan.end
+    );
+    const focused = focusedSpan && !isFocusedField && focusedSpan.start >= 0 && focusedSpan.end <= text.length
+      ? focusedSpan
+      : null;
+
+    const all: Segment[] = [
+      ...visibleSpans.map((span) => ({ start: span.start, end: span.end, keyword: span })),
+      ...fields
+        .filter((field) => field.span.start >= 0 && field.span.end <= text.length)
+        .map((field) => ({ start: field.span.start, end: field.span.end, field })),
+    ]
+      .filter((segment) => !focused || segment.end <= focused.start || segment.start >= focused.end)
+      .concat(focused ? [{ start: focused.start, end: focused.end, field: { span: focused, label: FOCUSED_LABEL } }] : [])
+      .sort((a, b) => a.start - b.start);
+
+    let lastEnd = 0;
+    return all.filter((segment) => {
+      if (segment.start < lastEnd) return false;
+      lastEnd = segment.end;
+      return true;
+    });
+  }, [visibleSpans, fields, focusedSpan, text.length]);
+
+  // Scroll the focused field into view
+  useEffect(() => {
+    if (!focusedSpan || focusedSpan.start < 0) return;
+    const element = containerRef.current?.querySelector(`[data-start="${focusedSpan.start}"]`);
+    element?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusedSpan]);
+
   // Handle click on highlighted span
   const handleSpanClick = useCallback(
     (span: HighlightSpan, event: React.MouseEvent<HTMLSpanElement>) => {
@@ -59,24 +131,70 @@ export function TextPreview({
 
   // Build the highlighted text content
   const renderedContent = useMemo(() => {
-    if (visibleSpans.length === 0) {
+    if (segments.length === 0 && uncertainWords.length === 0) {
       return <span>{text}</span>;
     }
 
     const elements: React.ReactNode[] = [];
     let lastEnd = 0;
 
-    // Sort spans by start position
-    const sortedSpans = [...visibleSpans].sort((a, b) => a.start - b.start);
+    // Plain text, with low-confidence words underlined
+    const pushText = (start: number, end: number, key: string) => {
+      let position = start;
+
+      for (const word of uncertainWords) {
+        if (word.end <= position || word.start >= end) continue;
+        const wordStart = Math.max(word.start, position);
+        const wordEnd = Math.min(word.end, end);
+
+        if (wordStart > position) {
+          elements.push(<span key={`${key}-${position}`}>{text.substring(position, wordStart)}</span>);
+        }
+        elements.push(
+          <span key={`${key}-${wordStart}`} className="ocr-uncertain" title={uncertainTitle(word.confidence)}>
+            {text.substring(wordStart, wordEnd)}
+          </span>
+        );
+        position = wordEnd;
+      }
+
+      if (position < end) {
+        elements.push(<span key={`${key}-${position}`}>{text.substring(position, end)}</span>);
+      }
+    };
+
+    segments.forEach((segment, index) => {
+      // Add text before this segment
+      if (segment.start > lastEnd) {
+        pushText(lastEnd, segment.start, `text-${index}`);
+      }
+
+      // Keywords and fields read from uncertain words are underlined whole
+      const confidence = lowestConfidence(uncertainWords, segment.start, segment.end);
+      const uncertainClass = confidence !== null ? "ocr-uncertain" : "";
+      const uncertainNote = confidence !== null ? ` · ${uncertainTitle(confidence)}` : "";
+
+      if ("field" in segment) {
+        const { span, label } = segment.field;
+        const isFocused = focusedSpan?.start === span.start && focusedSpan.end === span.end;
 
-    sortedSpans.forEach((span, index) => {
-      // Add text before this span
-      if (span.start > lastEnd) {
         elements.push(
-          <span key={`text-${index}`}>{text.substring(lastEnd, span.start)}</span>
+          <span
+            key={`field-${index}`}
+            data-start={span.start}
+            className={`highlight-field ${isFocused ? "highlight-field-active" : ""} ${uncertainClass}`}
+            title={`${label} · ${Math.round(span.confidence * 100)} % sicher erkannt${uncertainNote}`}
+          >
+            {text.substring(span.start, span.end)}
+          </span>
         );
+
+        lastEnd = segment.end;
+        return;
       }
 
+      const span = segment.keyword;
+
       // Get highlight class based on urgency and neutralization
       const highlightClass = span.isNeutralized
         ? "highlight-neutralized"
@@ -86,9 +204,10 @@ export function TextPreview({
       elements.push(
         <span
           key={`highlight-${index}`}
-          className={`${highlightClass} cursor-pointer transition-all hover:ring-2 hover:ring-primary-orange/50 rounded-sm`}
+          data-start={span.start}
+          className={`${highlightClass} ${uncertainClass} cursor-pointer transition-all hover:ring-2 hover:ring-primary-orange/50 rounded-sm`}
           onClick={(e) => handleSpanClick(span, e)}
-          title={`${span.keyword}: ${span.reason}`}
+          title={`${span.keyword}: ${span.reason}${uncertainNote}`}
           role="button"
           tabIndex={0}
           onKeyDown={(e) => {
@@ -109,11 +228,11 @@ export function TextPreview({
 
     // Add remaining text after last span
     if (lastEnd < text.length) {
-      elements.push(<span key="text-end">{text.substring(lastEnd)}</span>);
+      pushText(lastEnd, text.length, "text-end");
     }
 
     return elements;
-  }, [text, visibleSpans, handleSpanClick]);
+  }, [text, segments, focusedSpan, uncertainWords, handleSpanClick]);
 
   return (
     <div className="relative">
@@ -137,6 +256,21 @@ export function TextPreview({
             {highlightResult.activeCount.green} Info
           </span>
         </div>
+        {fields.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full bg-blue-500" />
+            <span className="text-sm text-text-secondary">
+              {fields.length} Angaben
+            </span>
+          </div>
+        )}
+        {uncertainWords.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="ocr-uncertain text-sm text-text-secondary">
+              {uncertainWords.length} unsicher erkannt
+            </span>
+          </div>
+        )}
         {highlightResult.neutralizedCount > 0 && (
           <div className="flex items-center gap-2">
             <span className="w-3 h-3 rounded-full bg-gray-400" />
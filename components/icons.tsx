@@ -30,9 +30,22 @@ export {
   // Data Types
   Coins,
   Calendar,
+  CalendarClock,
   Clock,
   ClipboardList,
   Building2,
+  Landmark,
+  Scale,
+  QrCode,
+  Car,
+  
+  // Contact
+  Phone,
+  Printer,
+  Mail,
+  MapPin,
+  User,
+  DoorOpen,
   
   // Features
   TrafficCone,
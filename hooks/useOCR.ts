@@ -5,12 +5,14 @@
  */
 
 import { useState, useCallback } from "react";
-import { OCRState } from "@/types";
+import { OCRState, OcrDocument } from "@/types";
 import { recognizeImage, OCRProgress } from "@/lib/ocr/tesseract";
+import { resolvePreprocessing } from "@/lib/ocr/preprocess";
+import { loadSettings } from "@/lib/settings";
 
 interface UseOCRReturn {
   state: OCRState;
-  processImage: (image: File | Blob) => Promise<string>;
+  processImage: (image: File | Blob) => Promise<OcrDocument>;
   reset: () => void;
 }
 
@@ -24,7 +26,7 @@ const initialState: OCRState = {
 export function useOCR(): UseOCRReturn {
   const [state, setState] = useState<OCRState>(initialState);
 
-  const processImage = useCallback(async (image: File | Blob): Promise<string> => {
+  const processImage = useCallback(async (image: File | Blob): Promise<OcrDocument> => {
     setState({
       isProcessing: true,
       progress: 0,
@@ -33,13 +35,15 @@ export function useOCR(): UseOCRReturn {
     });
 
     try {
-      const text = await recognizeImage(image, (progress: OCRProgress) => {
+      // Preprocessing variants as configured in the settings
+      const preprocessing = resolvePreprocessing(loadSettings().preprocessing);
+      const ocrDocument = await recognizeImage(image, (progress: OCRProgress) => {
         setState((prev) => ({
           ...prev,
           progress: Math.round(progress.progress * 100),
           status: progress.status,
         }));
-      });
+      }, preprocessing);
 
       setState((prev) => ({
         ...prev,
@@ -48,7 +52,7 @@ export function useOCR(): UseOCRReturn {
         status: "Abgeschlossen",
       }));
 
-      return text;
+      return ocrDocument;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "OCR fehlgeschlagen";
       setState({
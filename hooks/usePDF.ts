@@ -2,10 +2,14 @@
 
 /**
  * Hook for PDF text extraction with progress tracking.
+ * Also returns the rendered page images so they can be scanned for QR codes.
  */
 
 import { useState, useCallback } from "react";
+import { OcrDocument } from "@/types";
 import { PDFProgress } from "@/lib/pdf/extractor";
+import { resolvePreprocessing } from "@/lib/ocr/preprocess";
+import { loadSettings } from "@/lib/settings";
 
 interface PDFState {
   isProcessing: boolean;
@@ -14,9 +18,15 @@ interface PDFState {
   error: string | null;
 }
 
+interface PDFExtraction {
+  text: string;
+  ocrDocument: OcrDocument; // Layout of all pages; text is its text
+  images: Blob[];
+}
+
 interface UsePDFReturn {
   state: PDFState;
-  extractText: (file: File | Blob) => Promise<string>;
+  extractText: (file: File | Blob) => Promise<PDFExtraction>;
   reset: () => void;
 }
 
@@ -30,7 +40,7 @@ const initialState: PDFState = {
 export function usePDF(): UsePDFReturn {
   const [state, setState] = useState<PDFState>(initialState);
 
-  const extractText = useCallback(async (file: File | Blob): Promise<string> => {
+  const extractText = useCallback(async (file: File | Blob): Promise<PDFExtraction> => {
     setState({
       isProcessing: true,
       progress: 0,
@@ -63,8 +73,9 @@ export function usePDF(): UsePDFReturn {
 
       // Step 2: Run OCR on images
       const { batchRecognize } = await import("@/lib/ocr/tesseract");
+      const preprocessing = resolvePreprocessing(loadSettings().preprocessing);
 
-      const textParts = await batchRecognize(images, (current, total) => {
+      const ocrDocument = await batchRecognize(images, (current, total) => {
         const ocrProgress = Math.round((current / total) * 100);
         const totalProgress = 50 + Math.round(ocrProgress * 0.5); // Second 50% is OCR
         
@@ -73,7 +84,7 @@ export function usePDF(): UsePDFReturn {
           progress: totalProgress,
           status: `Analysiere Seite ${current} von ${total}...`,
         }));
-      });
+      }, preprocessing);
 
       setState((prev) => ({
         ...prev,
@@ -82,7 +93,7 @@ export function usePDF(): UsePDFReturn {
         status: "Abgeschlossen",
       }));
 
-      return textParts.join("\n\n");
+      return { text: ocrDocument.text, ocrDocument, images };
     } catch (error) {
       console.error("PDF Processing Error:", error);
       const errorMessage = error instanceof Error ? error.message : "PDF-Verarbeitung fehlgeschlagen";
@@ -5,15 +5,27 @@
  */
 
 import { useState, useCallback } from "react";
-import { AnalysisResult, ExtractedData, ScoringResult } from "@/types";
+import { AnalysisResult, DecodedCode, ExtractedData, OcrDocument, ScoringResult } from "@/types";
 import { analyzeText } from "@/lib/scoring/engine";
 import { extractData } from "@/lib/extraction/extractor";
-import { normalizeText } from "@/lib/normalization/text";
+import { applyDecodedCodes } from "@/lib/extraction/codes";
+import { parseLegalRemedy } from "@/lib/extraction/legalRemedy";
+import { normalizeTextWithMap } from "@/lib/normalization/text";
+import { getNormalizationLog } from "@/lib/normalization/offsets";
+import { findUncertainWords } from "@/lib/scoring/uncertainty";
+import { loadSettings } from "@/lib/settings";
+
+/** Inputs besides the text */
+export interface AnalyzeOptions {
+  codes?: DecodedCode[];         // QR codes and barcodes from the images
+  rejectedChanges?: string[];    // Ids of normalization changes to leave out
+  ocrDocument?: OcrDocument;     // Layout the raw text was read with
+}
 
 interface UseScoringReturn {
   result: AnalysisResult | null;
   isAnalyzing: boolean;
-  analyze: (rawText: string) => AnalysisResult;
+  analyze: (rawText: string, options?: AnalyzeOptions) => AnalysisResult;
   reset: () => void;
 }
 
@@ -21,24 +33,42 @@ export function useScoring(): UseScoringReturn {
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
-  const analyze = useCallback((rawText: string): AnalysisResult => {
+  const analyze = useCallback((rawText: string, options: AnalyzeOptions = {}): AnalysisResult => {
+    const { codes = [], rejectedChanges = [], ocrDocument } = options;
     setIsAnalyzing(true);
 
     try {
-      // Step 1: Normalize text
-      const normalizedText = normalizeText(rawText);
+      // Step 1: Normalize text without the corrections the user rejected,
+      // keeping the way back to the raw offsets and the log of changes
+      const normalized = normalizeTextWithMap(rawText, rejectedChanges, ocrDocument);
+      const { text: normalizedText, map: offsetMap } = normalized;
+
+      // Step 2: Extract data (Bundesland decides which holidays shift deadlines)
+      // and cross-check it with QR codes and barcodes from the images
+      const { bundesland } = loadSettings();
+      const extractedData: ExtractedData = applyDecodedCodes(
+        extractData(normalizedText, { bundesland }),
+        codes
+      );
 
-      // Step 2: Extract data
-      const extractedData: ExtractedData = extractData(normalizedText);
+      // Step 3: Read the Rechtsbehelfsbelehrung (appeal deadline)
+      const legalRemedy = parseLegalRemedy(normalizedText, extractedData, bundesland);
 
-      // Step 3: Analyze and score
-      const scoring: ScoringResult = analyzeText(normalizedText, extractedData);
+      // Step 4: Analyze and score, noting findings read from
+      // low-confidence OCR words
+      const uncertainWords = ocrDocument ? findUncertainWords(ocrDocument, rawText, offsetMap) : [];
+      const scoring: ScoringResult = analyzeText(normalizedText, extractedData, uncertainWords);
 
       // Build result
       const analysisResult: AnalysisResult = {
         rawText,
         normalizedText,
+        offsetMap,
+        normalizationLog: getNormalizationLog(normalized),
+        ocrDocument,
+        uncertainWords,
         extractedData,
+        legalRemedy,
         scoring,
         processedAt: new Date(),
       };
@@ -0,0 +1,37 @@
+"use client";
+
+/**
+ * React hook for reading and updating user settings.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { UserSettings } from "@/types";
+import { loadSettings, saveSettings } from "@/lib/settings";
+
+interface UseSettingsReturn {
+  settings: UserSettings;
+  isLoading: boolean;
+  updateSettings: (changes: Partial<UserSettings>) => void;
+}
+
+export function useSettings(): UseSettingsReturn {
+  const [settings, setSettings] = useState<UserSettings>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load settings on mount
+  useEffect(() => {
+    setSettings(loadSettings());
+    setIsLoading(false);
+  }, []);
+
+  // Merge changes and persist
+  const updateSettings = useCallback((changes: Partial<UserSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, isLoading, updateSettings };
+}
@@ -0,0 +1,119 @@
+/**
+ * Local QR code and barcode reader.
+ *
+ * Reads GiroCodes (EPC QR), the QR code on Beitragsservice letters and
+ * Kassenzeichen barcodes from camera captures and rendered PDF pages.
+ * QR codes are decoded with jsQR; 1D barcodes use the browser's
+ * BarcodeDetector where it exists. Images never leave the device.
+ */
+
+import jsQR from "jsqr";
+import { DecodedCode } from "@/types";
+import { parseEpcPayload } from "@/lib/payment/girocode";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Longest image side that is scanned (larger images are scaled down) */
+const MAX_SCAN_SIZE = 2000;
+
+/** Barcode formats used for Kassenzeichen and payment slips */
+const BARCODE_FORMATS = ["code_128", "code_39", "itf", "data_matrix"];
+
+// ============================================================================
+// BARCODE DETECTOR
+// ============================================================================
+
+/** Minimal typing of the Shape Detection API (not in the TypeScript DOM lib) */
+interface DetectedBarcode {
+  format: string;
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  return (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+async function detectBarcodes(canvas: HTMLCanvasElement): Promise<DecodedCode[]> {
+  const Detector = getBarcodeDetector();
+  if (!Detector) return [];
+
+  const supported = await Detector.getSupportedFormats();
+  const formats = BARCODE_FORMATS.filter((format) => supported.includes(format));
+  if (formats.length === 0) return [];
+
+  const barcodes = await new Detector({ formats }).detect(canvas);
+  return barcodes.map((barcode) => toDecodedCode(barcode.format, barcode.rawValue));
+}
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+function toDecodedCode(format: string, value: string): DecodedCode {
+  return { format, value: value.trim(), payment: parseEpcPayload(value) };
+}
+
+/**
+ * Scan a single image for a QR code and barcodes.
+ */
+async function scanImage(image: Blob): Promise<DecodedCode[]> {
+  const bitmap = await createImageBitmap(image);
+
+  try {
+    const scale = Math.min(1, MAX_SCAN_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) {
+      throw new Error("Canvas context creation failed");
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const codes: DecodedCode[] = [];
+    const qr = jsQR(context.getImageData(0, 0, width, height).data, width, height);
+    if (qr?.data) {
+      codes.push(toDecodedCode("qr_code", qr.data));
+    }
+
+    return [...codes, ...(await detectBarcodes(canvas))];
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Scan images (camera capture or PDF pages) for QR codes and barcodes.
+ * Failures are logged and skipped; duplicates across pages are removed.
+ */
+export async function scanImagesForCodes(images: Blob[]): Promise<DecodedCode[]> {
+  const codes: DecodedCode[] = [];
+
+  for (const image of images) {
+    try {
+      for (const code of await scanImage(image)) {
+        if (code.value && !codes.some((c) => c.value === code.value)) {
+          codes.push(code);
+        }
+      }
+    } catch (error) {
+      console.error("[Barcode] Failed to scan image:", error);
+    }
+  }
+
+  return codes;
+}
@@ -0,0 +1,81 @@
+/**
+ * Calendar date helpers for deadline calculation.
+ *
+ * All dates are handled as local dates at midnight. Period arithmetic
+ * follows §§187, 188 BGB: the triggering day is not counted, and a
+ * month-based period ends on the day with the same number, or on the
+ * last day of the month if that day does not exist.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Create a local date at midnight. Returns null for impossible dates (31.02.).
+ */
+export function createDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Strip the time part of a date.
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Add a number of calendar days.
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Add months per §188 Abs. 2, 3 BGB (31.01. + 1 Monat = 28./29.02.).
+ */
+export function addMonths(date: Date, months: number): Date {
+  const targetMonth = date.getMonth() + months;
+  const lastDay = new Date(date.getFullYear(), targetMonth + 1, 0).getDate();
+  return new Date(date.getFullYear(), targetMonth, Math.min(date.getDate(), lastDay));
+}
+
+/**
+ * Last day of the month the date falls into.
+ */
+export function endOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0);
+}
+
+/**
+ * Whole days from a to b (negative if b is before a).
+ */
+export function daysBetween(a: Date, b: Date): number {
+  return Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Format a date as DD.MM.YYYY.
+ */
+export function formatDate(date: Date): string {
+  return date.toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+/**
+ * Format a date with weekday, e.g. "Mo., 02.02.2026".
+ */
+export function formatDateWithWeekday(date: Date): string {
+  return date.toLocaleDateString("de-DE", {
+    weekday: "short",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+  });
+}
@@ -0,0 +1,183 @@
+/**
+ * Public holiday calendar for all 16 Bundesländer.
+ *
+ * Movable feasts are computed from Easter Sunday. Holidays that only apply
+ * to parts of a state (e.g. Fronleichnam in parts of Sachsen/Thüringen,
+ * Mariä Himmelfahrt in Bavarian communities, Augsburger Friedensfest) are
+ * not included, since we cannot know the user's municipality.
+ */
+
+import { Bundesland } from "@/types";
+import { addDays, createDate } from "./dates";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Holiday {
+  date: Date;
+  name: string;
+}
+
+interface HolidayRule {
+  name: string;
+  /** States the holiday applies to; undefined means nationwide */
+  states?: Bundesland[];
+  /** First year the holiday applies */
+  since?: number;
+  /** Compute the date for a given year and Easter Sunday */
+  getDate: (year: number, easter: Date) => Date | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** German names of the Bundesländer */
+export const BUNDESLAND_LABELS: Record<Bundesland, string> = {
+  BW: "Baden-Württemberg",
+  BY: "Bayern",
+  BE: "Berlin",
+  BB: "Brandenburg",
+  HB: "Bremen",
+  HH: "Hamburg",
+  HE: "Hessen",
+  MV: "Mecklenburg-Vorpommern",
+  NI: "Niedersachsen",
+  NW: "Nordrhein-Westfalen",
+  RP: "Rheinland-Pfalz",
+  SL: "Saarland",
+  SN: "Sachsen",
+  ST: "Sachsen-Anhalt",
+  SH: "Schleswig-Holstein",
+  TH: "Thüringen",
+};
+
+const fixed = (month: number, day: number) => (year: number) => createDate(year, month, day);
+const easterOffset = (days: number) => (_year: number, easter: Date) => addDays(easter, days);
+
+/**
+ * Buß- und Bettag: Wednesday before 23 November.
+ */
+function getBussUndBettag(year: number): Date {
+  const nov23 = new Date(year, 10, 23);
+  const offset = ((nov23.getDay() - 3 + 7) % 7) || 7;
+  return addDays(nov23, -offset);
+}
+
+const HOLIDAY_RULES: HolidayRule[] = [
+  { name: "Neujahr", getDate: fixed(1, 1) },
+  { name: "Heilige Drei Könige", states: ["BW", "BY", "ST"], getDate: fixed(1, 6) },
+  { name: "Internationaler Frauentag", states: ["BE"], since: 2019, getDate: fixed(3, 8) },
+  { name: "Internationaler Frauentag", states: ["MV"], since: 2023, getDate: fixed(3, 8) },
+  { name: "Karfreitag", getDate: easterOffset(-2) },
+  { name: "Ostersonntag", states: ["BB"], getDate: easterOffset(0) },
+  { name: "Ostermontag", getDate: easterOffset(1) },
+  { name: "Tag der Arbeit", getDate: fixed(5, 1) },
+  { name: "Christi Himmelfahrt", getDate: easterOffset(39) },
+  { name: "Pfingstsonntag", states: ["BB"], getDate: easterOffset(49) },
+  { name: "Pfingstmontag", getDate: easterOffset(50) },
+  { name: "Fronleichnam", states: ["BW", "BY", "HE", "NW", "RP", "SL"], getDate: easterOffset(60) },
+  { name: "Mariä Himmelfahrt", states: ["SL"], getDate: fixed(8, 15) },
+  { name: "Weltkindertag", states: ["TH"], since: 2019, getDate: fixed(9, 20) },
+  { name: "Tag der Deutschen Einheit", getDate: fixed(10, 3) },
+  { name: "Reformationstag", states: ["BB", "MV", "SN", "ST", "TH"], getDate: fixed(10, 31) },
+  { name: "Reformationstag", states: ["HB", "HH", "NI", "SH"], since: 2018, getDate: fixed(10, 31) },
+  { name: "Allerheiligen", states: ["BW", "BY", "NW", "RP", "SL"], getDate: fixed(11, 1) },
+  { name: "Buß- und Bettag", states: ["SN"], getDate: getBussUndBettag },
+  { name: "1. Weihnachtstag", getDate: fixed(12, 25) },
+  { name: "2. Weihnachtstag", getDate: fixed(12, 26) },
+];
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm).
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * All public holidays of a year. Without a Bundesland, only nationwide
+ * holidays are returned.
+ */
+export function getHolidays(year: number, bundesland?: Bundesland): Holiday[] {
+  const easter = getEasterSunday(year);
+  const holidays: Holiday[] = [];
+
+  for (const rule of HOLIDAY_RULES) {
+    if (rule.since !== undefined && year < rule.since) continue;
+    if (rule.states && (!bundesland || !rule.states.includes(bundesland))) continue;
+
+    const date = rule.getDate(year, easter);
+    if (date) {
+      holidays.push({ date, name: rule.name });
+    }
+  }
+
+  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Name of the holiday on this date, or undefined.
+ */
+export function getHolidayName(date: Date, bundesland?: Bundesland): string | undefined {
+  return getHolidays(date.getFullYear(), bundesland).find(
+    (h) => h.date.getMonth() === date.getMonth() && h.date.getDate() === date.getDate()
+  )?.name;
+}
+
+/**
+ * Check whether a date is a Saturday or Sunday.
+ */
+export function isWeekend(date: Date): boolean {
+  const day = date.getDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Check whether a date is a working day (Mon–Fri, no public holiday).
+ */
+export function isWorkingDay(date: Date, bundesland?: Bundesland): boolean {
+  return !isWeekend(date) && getHolidayName(date, bundesland) === undefined;
+}
+
+/**
+ * Move a deadline that ends on a Saturday, Sunday or public holiday to the
+ * next working day (§193 BGB, §222 Abs. 2 ZPO, §108 Abs. 3 AO).
+ *
+ * @returns The shifted date and the reason, or the original date unchanged
+ */
+export function shiftToWorkingDay(
+  date: Date,
+  bundesland?: Bundesland
+): { date: Date; reason?: string } {
+  if (isWorkingDay(date, bundesland)) {
+    return { date };
+  }
+
+  const reason = getHolidayName(date, bundesland) ?? "Wochenende";
+  let shifted = addDays(date, 1);
+  while (!isWorkingDay(shifted, bundesland)) {
+    shifted = addDays(shifted, 1);
+  }
+
+  return { date: shifted, reason };
+}
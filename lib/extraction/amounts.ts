@@ -0,0 +1,243 @@
+/**
+ * Amount extraction with semantic classification.
+ *
+ * Each amount is classified by the words closest to it (principal claim,
+ * Mahngebühren, interest, Säumniszuschlag, collection costs, total, credit).
+ * The parts are then checked against the stated total, so the user sees one
+ * clear "Zu zahlen" figure and a warning when the numbers do not add up.
+ */
+
+import { AmountCheck, AmountRole, ExtractedAmount } from "@/types";
+import { AMOUNT_PATTERN } from "./patterns";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AmountRoleRule {
+  role: AmountRole;
+  pattern: RegExp;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** How many characters before an amount are inspected for its role */
+const CONTEXT_WINDOW = 80;
+
+/** Confidence of amounts with and without cents ("120,00 €" vs. "120 €") */
+const CONFIDENCE_WITH_CENTS = 0.95;
+const CONFIDENCE_WITHOUT_CENTS = 0.8;
+
+/** Tolerance for comparing sums (rounding in letters) */
+const SUM_TOLERANCE = 0.01;
+
+/** Longest label of an itemised row ("Mahngebühr 2. Mahnung vom 01.02.2026") */
+const MAX_ROW_LABEL_LENGTH = 60;
+
+/** Nothing but the currency may follow the amount on an itemised row */
+const ROW_END_PATTERN = /^\s*(?:€|EUR)?\s*$/i;
+
+/**
+ * Role keywords. The keyword that appears closest before the amount wins,
+ * so "Mahngebühren in Höhe von 15,00 €" is a fee even if the sentence
+ * mentions the Forderung earlier.
+ */
+const AMOUNT_ROLE_RULES: AmountRoleRule[] = [
+  { role: "total", pattern: /gesamt\w*|summe|insgesamt|zahlbetrag|endbetrag|zu\s+zahlen(?:der\s+betrag)?/gi },
+  { role: "dunning_fee", pattern: /mahngeb[üu]hr\w*|mahnkosten|mahnspesen/gi },
+  { role: "interest", pattern: /\w*zinsen/gi },
+  { role: "late_surcharge", pattern: /s[äa]umniszuschl[äa]g\w*/gi },
+  { role: "collection_costs", pattern: /inkasso\w*|vollstreckungskosten|auslagen\w*|kostenpauschale|geb[üu]hren(?!frei)/gi },
+  { role: "credit", pattern: /gutschrift|erstatt\w*|guthaben|r[üu]ckzahlung|(?:bereits\s+)?(?:gezahlt|bezahlt|geleistet)\w*(?:\s+(?:betrag|zahlung)\w*)?|zahlungseing[äa]ng\w*|abz[üu]glich/gi },
+  { role: "principal", pattern: /hauptforderung|forderung|rechnung\w*|offene[nrs]?\s+betrag\w*|beitr[äa]g\w*|steuer\w*|r[üu]ckstand|betrag\w*/gi },
+];
+
+/** Roles that add up to the total */
+const COMPONENT_ROLES: AmountRole[] = [
+  "principal",
+  "dunning_fee",
+  "interest",
+  "late_surcharge",
+  "collection_costs",
+];
+
+/** German labels for amount roles */
+export const AMOUNT_ROLE_LABELS: Record<AmountRole, string> = {
+  principal: "Hauptforderung",
+  dunning_fee: "Mahngebühren",
+  interest: "Zinsen",
+  late_surcharge: "Säumniszuschlag",
+  collection_costs: "Inkasso-/Verfahrenskosten",
+  total: "Gesamtbetrag",
+  credit: "Gutschrift/Zahlung",
+  unknown: "Betrag",
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse German number format (1.234,56) to number.
+ */
+export function parseGermanNumber(value: string): number {
+  // Remove thousand separators (dots) and replace decimal comma with dot
+  const normalized = value.replace(/\./g, "").replace(",", ".");
+  return parseFloat(normalized);
+}
+
+/**
+ * Format a number as German currency (1.234,56 €).
+ */
+export function formatEuro(value: number): string {
+  return value.toLocaleString("de-DE", { style: "currency", currency: "EUR" });
+}
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+/**
+ * Classify an amount by the closest role keyword in the same sentence.
+ */
+function classifyAmountRole(text: string, start: number): AmountRole {
+  const windowStart = Math.max(0, start - CONTEXT_WINDOW);
+  let before = text.substring(windowStart, start);
+
+  // Only look within the current sentence ("Nr. 12345" is not a sentence end)
+  const sentenceBreaks = [...before.matchAll(/[.!?]\s+(?=[A-ZÄÖÜ])|\n/g)];
+  const lastBreak = sentenceBreaks[sentenceBreaks.length - 1];
+  if (lastBreak?.index !== undefined) {
+    before = before.substring(lastBreak.index + lastBreak[0].length);
+  }
+
+  let bestRole: AmountRole = "unknown";
+  let bestPosition = -1;
+
+  for (const rule of AMOUNT_ROLE_RULES) {
+    const regex = new RegExp(rule.pattern.source, "gi");
+    let match;
+    while ((match = regex.exec(before)) !== null) {
+      const endPosition = match.index + match[0].length;
+      // Closest keyword wins; on ties the earlier rule (more specific) wins
+      if (endPosition > bestPosition) {
+        bestPosition = endPosition;
+        bestRole = rule.role;
+      }
+    }
+  }
+
+  return bestRole;
+}
+
+// ============================================================================
+// MAIN EXTRACTION
+// ============================================================================
+
+/**
+ * Extract all currency amounts with their role.
+ */
+export function extractAmounts(text: string): ExtractedAmount[] {
+  const amounts: ExtractedAmount[] = [];
+  const regex = new RegExp(AMOUNT_PATTERN.source, "gi");
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    const value = parseGermanNumber(match[1]);
+    if (!isNaN(value)) {
+      amounts.push({
+        value,
+        formatted: match[0].trim(),
+        role: classifyAmountRole(text, match.index),
+        start: match.index,
+        end: match.index + match[0].length,
+        raw: match[0],
+        confidence: match[1].includes(",") ? CONFIDENCE_WITH_CENTS : CONFIDENCE_WITHOUT_CENTS,
+      });
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Line of an itemised cost table: a short label, the amount and nothing
+ * after it but the currency ("Mahngebühr 2. Mahnung  5,00 EUR").
+ */
+function isItemisedRow(text: string, amount: ExtractedAmount): boolean {
+  const lineStart = text.lastIndexOf("\n", amount.start - 1) + 1;
+  const lineEnd = text.indexOf("\n", amount.end);
+  const label = text.substring(lineStart, amount.start);
+  const rest = text.substring(amount.end, lineEnd === -1 ? text.length : lineEnd);
+
+  return label.length <= MAX_ROW_LABEL_LENGTH && !/[.!?]\s/.test(label) && ROW_END_PATTERN.test(rest);
+}
+
+/**
+ * Sum values per role, counting each value once: a principal named in the
+ * text and repeated in the cost table is one claim. Only equal amounts on
+ * separate itemised rows (two Mahngebühren of 5,00 EUR) are separate charges.
+ */
+function sumDistinct(text: string, amounts: ExtractedAmount[], roles: AmountRole[]): number {
+  const distinct = new Map<string, { value: number; rows: number }>();
+
+  for (const amount of amounts) {
+    if (!roles.includes(amount.role)) continue;
+    const key = `${amount.role}:${amount.value}`;
+    const entry = distinct.get(key) ?? { value: amount.value, rows: 0 };
+    if (isItemisedRow(text, amount)) entry.rows++;
+    distinct.set(key, entry);
+  }
+
+  let sum = 0;
+  for (const { value, rows } of distinct.values()) {
+    sum += value * Math.max(1, rows);
+  }
+
+  return Math.round(sum * 100) / 100;
+}
+
+/**
+ * Determine the amount to pay and check that the parts add up to the total.
+ */
+export function checkAmounts(text: string, amounts: ExtractedAmount[]): AmountCheck | undefined {
+  const totals = amounts.filter((a) => a.role === "total");
+  const components = amounts.filter((a) => COMPONENT_ROLES.includes(a.role));
+  const credits = amounts.filter((a) => a.role === "credit");
+
+  const componentsSum = components.length > 0
+    ? Math.round((sumDistinct(text, amounts, COMPONENT_ROLES) - sumDistinct(text, amounts, ["credit"])) * 100) / 100
+    : undefined;
+
+  // Stated total: the last one mentioned is usually the final figure
+  if (totals.length > 0) {
+    const amountDue = totals[totals.length - 1].value;
+
+    if (componentsSum === undefined) {
+      return { amountDue, isConsistent: true };
+    }
+
+    const difference = Math.round((amountDue - componentsSum) * 100) / 100;
+    return {
+      amountDue,
+      componentsSum,
+      difference,
+      isConsistent: Math.abs(difference) < SUM_TOLERANCE,
+    };
+  }
+
+  // No stated total: the parts are the amount due
+  if (componentsSum !== undefined && componentsSum > 0) {
+    return { amountDue: componentsSum, componentsSum, isConsistent: true };
+  }
+
+  // Only unclassified amounts: usable if they all agree
+  const unknownValues = new Set(amounts.filter((a) => a.role === "unknown").map((a) => a.value));
+  if (credits.length === 0 && unknownValues.size === 1) {
+    return { amountDue: [...unknownValues][0], isConsistent: true };
+  }
+
+  return undefined;
+}
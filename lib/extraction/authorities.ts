@@ -0,0 +1,115 @@
+/**
+ * Offline gazetteer of senders of official and payment-related letters.
+ *
+ * Entries are checked in order, so specific authorities come before the
+ * generic municipality and company patterns.
+ */
+
+import { SenderType } from "@/types";
+
+export interface AuthorityDefinition {
+  type: SenderType;
+  /** Matches the sender name; the matched text becomes the displayed name */
+  pattern: RegExp;
+  /** Fixed display name, for senders with one well-known name */
+  canonicalName?: string;
+}
+
+/** A capitalized word, including umlauts and hyphenated compounds */
+const NAME = "[A-ZÄÖÜ][A-Za-zÄÖÜäöüß.\\-]*";
+/** A place name of up to three words ("Frankfurt am Main", "Berlin-Mitte") */
+const PLACE = `${NAME}(?:\\s+(?:am|an\\s+der|im|in\\s+der|ob\\s+der|vor\\s+der)\\s+${NAME}|\\s+${NAME}){0,2}`;
+
+const named = (prefix: string) => new RegExp(`\\b(?:${prefix})(?:\\s+${PLACE})?`);
+
+/** Authority name patterns, most specific first */
+export const AUTHORITIES: AuthorityDefinition[] = [
+  {
+    type: "broadcasting_fee_service",
+    pattern: /ARD\s*ZDF\s*Deutschlandradio\s*Beitragsservice|\bBeitragsservice\b/,
+    canonicalName: "ARD ZDF Deutschlandradio Beitragsservice",
+  },
+  { type: "tax_office", pattern: named("Finanzamt") },
+  { type: "customs_office", pattern: named("Hauptzollamt") },
+  { type: "family_benefits_office", pattern: named("Familienkasse") },
+  { type: "jobcenter", pattern: named("Jobcenter") },
+  { type: "employment_agency", pattern: named("Agentur\\s+für\\s+Arbeit|Bundesagentur\\s+für\\s+Arbeit") },
+  { type: "pension_insurance", pattern: named("Deutsche\\s+Rentenversicherung") },
+  {
+    type: "court",
+    pattern: new RegExp(
+      `\\b(?:Zentrales\\s+Mahngericht|Mahngericht|(?:Amts|Land|Oberlandes|Sozial|Landessozial|Arbeits|Verwaltungs|Finanz)gericht)(?:\\s+${PLACE})?`
+    ),
+  },
+  { type: "bailiff", pattern: /\bGerichtsvollzieher(?:in)?(?:\s+[A-ZÄÖÜ][a-zäöüß\-]+){0,2}/ },
+  { type: "fine_office", pattern: named("Zentrale\\s+Bußgeldstelle|Bußgeldstelle|Bußgeldbehörde") },
+  {
+    type: "city_treasury",
+    pattern: named("Stadt-?\\s*und\\s+Kreiskasse|Stadtkasse|Gemeindekasse|Kreiskasse|Amtskasse|Landeshauptkasse|Landesoberkasse|Bundeskasse"),
+  },
+  {
+    type: "health_insurance",
+    pattern: new RegExp(
+      `\\b(?:AOK(?:\\s+${PLACE})?|Techniker\\s+Krankenkasse|BARMER|Barmer|DAK-Gesundheit|DAK|KKH|hkk|HEK|Knappschaft|IKK(?:\\s+${NAME})?|BKK(?:\\s+${NAME})?|${NAME}Krankenkasse|Krankenkasse(?:\\s+${NAME})?)\\b`
+    ),
+  },
+  {
+    type: "debt_collection",
+    pattern: new RegExp(
+      `(?:${NAME}\\s+)*(?:${NAME})?Inkasso(?:\\s+${NAME})*(?:\\s+(?:GmbH|AG|KG|mbH|SE)(?:\\s*&\\s*Co\\.?\\s*KG)?)?|\\b(?:Creditreform|EOS\\s+${NAME}|Intrum|infoscore|Riverty|PAIR\\s+Finance|coeo|KSP\\s+Kanzlei|Lowell)(?:\\s+${NAME})*(?:\\s+(?:GmbH|AG|KG|SE))?`
+    ),
+  },
+  {
+    type: "municipality",
+    pattern: new RegExp(
+      `\\b(?:(?:Vollstreckungsbehörde|Stadtverwaltung|Kreisverwaltung|Ordnungsamt|Bürgeramt|Steueramt|Kämmerei)\\s+(?:der\\s+)?)?(?:Stadt|Gemeinde|Landkreis|Kreis|Markt|Bezirksamt|Landratsamt|Landeshauptstadt)\\s+${PLACE}`
+    ),
+  },
+  {
+    type: "company",
+    pattern: new RegExp(
+      `${NAME}(?:\\s+${NAME}|\\s+&\\s+${NAME}){0,3}\\s+(?:GmbH(?:\\s*&\\s*Co\\.?\\s*KG)?|AG|KG|SE|OHG|GbR|UG(?:\\s*\\(haftungsbeschränkt\\))?|e\\.\\s?K\\.|mbH)`
+    ),
+  },
+];
+
+/** German labels for sender types */
+export const SENDER_TYPE_LABELS: Record<SenderType, string> = {
+  tax_office: "Finanzamt",
+  customs_office: "Hauptzollamt",
+  jobcenter: "Jobcenter",
+  employment_agency: "Agentur für Arbeit",
+  family_benefits_office: "Familienkasse",
+  pension_insurance: "Rentenversicherung",
+  court: "Gericht",
+  bailiff: "Gerichtsvollzieher",
+  fine_office: "Bußgeldstelle",
+  city_treasury: "Stadt-/Gemeindekasse",
+  broadcasting_fee_service: "Rundfunkbeitrag",
+  health_insurance: "Krankenkasse",
+  debt_collection: "Inkasso",
+  municipality: "Kommune",
+  company: "Unternehmen",
+  unknown: "Unbekannt",
+};
+
+/**
+ * Sender types that are public authorities (as opposed to private creditors).
+ * Statutory health insurers are public bodies; their claims follow the
+ * SGB (Säumniszuschlag §24 SGB IV, limitation §25 SGB IV), not the BGB.
+ */
+export const PUBLIC_SENDER_TYPES: SenderType[] = [
+  "tax_office",
+  "customs_office",
+  "jobcenter",
+  "employment_agency",
+  "family_benefits_office",
+  "pension_insurance",
+  "court",
+  "bailiff",
+  "fine_office",
+  "city_treasury",
+  "broadcasting_fee_service",
+  "health_insurance",
+  "municipality",
+];
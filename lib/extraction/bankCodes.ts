@@ -0,0 +1,78 @@
+/**
+ * Offline excerpt of the Bundesbank Bankleitzahlendatei.
+ *
+ * Covers the Bundesbank branches (used by most public cash offices) and the
+ * large private, savings and direct banks. Lookups that miss simply show
+ * no bank name; the IBAN checksum does not depend on this table.
+ */
+
+export interface BankInfo {
+  name: string;
+  bic: string;
+}
+
+/** Bank details keyed by 8-digit Bankleitzahl */
+export const BANK_CODES: Record<string, BankInfo> = {
+  // Deutsche Bundesbank (Finanzkassen, Landeshauptkassen, Bundeskasse)
+  "10000000": { name: "Deutsche Bundesbank, Filiale Berlin", bic: "MARKDEF1100" },
+  "20000000": { name: "Deutsche Bundesbank, Filiale Hamburg", bic: "MARKDEF1200" },
+  "25000000": { name: "Deutsche Bundesbank, Filiale Hannover", bic: "MARKDEF1250" },
+  "30000000": { name: "Deutsche Bundesbank, Filiale Düsseldorf", bic: "MARKDEF1300" },
+  "37000000": { name: "Deutsche Bundesbank, Filiale Köln", bic: "MARKDEF1370" },
+  "50000000": { name: "Deutsche Bundesbank, Zentrale Frankfurt", bic: "MARKDEFFXXX" },
+  "55000000": { name: "Deutsche Bundesbank, Filiale Mainz", bic: "MARKDEF1550" },
+  "60000000": { name: "Deutsche Bundesbank, Filiale Stuttgart", bic: "MARKDEF1600" },
+  "66000000": { name: "Deutsche Bundesbank, Filiale Karlsruhe", bic: "MARKDEF1660" },
+  "70000000": { name: "Deutsche Bundesbank, Filiale München", bic: "MARKDEF1700" },
+  "76000000": { name: "Deutsche Bundesbank, Filiale Nürnberg", bic: "MARKDEF1760" },
+  "81000000": { name: "Deutsche Bundesbank, Filiale Magdeburg", bic: "MARKDEF1810" },
+  "86000000": { name: "Deutsche Bundesbank, Filiale Leipzig", bic: "MARKDEF1860" },
+
+  // Postbank
+  "10010010": { name: "Postbank Berlin", bic: "PBNKDEFFXXX" },
+  "20010020": { name: "Postbank Hamburg", bic: "PBNKDEFFXXX" },
+  "37010050": { name: "Postbank Köln", bic: "PBNKDEFFXXX" },
+  "44010046": { name: "Postbank Dortmund", bic: "PBNKDEFFXXX" },
+  "70010080": { name: "Postbank München", bic: "PBNKDEFFXXX" },
+
+  // Private banks
+  "10070000": { name: "Deutsche Bank Berlin", bic: "DEUTDEBBXXX" },
+  "20070000": { name: "Deutsche Bank Hamburg", bic: "DEUTDEHHXXX" },
+  "50070010": { name: "Deutsche Bank Frankfurt", bic: "DEUTDEFFXXX" },
+  "10040000": { name: "Commerzbank Berlin", bic: "COBADEBBXXX" },
+  "20040000": { name: "Commerzbank Hamburg", bic: "COBADEHHXXX" },
+  "50040000": { name: "Commerzbank Frankfurt", bic: "COBADEFFXXX" },
+  "20041133": { name: "comdirect bank", bic: "COBADEHD001" },
+  "70020270": { name: "UniCredit Bank - HypoVereinsbank", bic: "HYVEDEMMXXX" },
+  "10077777": { name: "norisbank", bic: "NORSDE51XXX" },
+
+  // Direct banks
+  "50010517": { name: "ING-DiBa", bic: "INGDDEFFXXX" },
+  "12030000": { name: "Deutsche Kreditbank (DKB)", bic: "BYLADEM1001" },
+  "10011001": { name: "N26 Bank", bic: "NTSBDEB1XXX" },
+
+  // Savings banks
+  "10050000": { name: "Landesbank Berlin - Berliner Sparkasse", bic: "BELADEBEXXX" },
+  "20050550": { name: "Hamburger Sparkasse", bic: "HASPDEHHXXX" },
+  "25050180": { name: "Sparkasse Hannover", bic: "SPKHDE2HXXX" },
+  "30050110": { name: "Stadtsparkasse Düsseldorf", bic: "DUSSDEDDXXX" },
+  "37050198": { name: "Sparkasse KölnBonn", bic: "COLSDE33XXX" },
+  "44050199": { name: "Sparkasse Dortmund", bic: "DORTDE33XXX" },
+  "50050201": { name: "Frankfurter Sparkasse", bic: "HELADEF1822" },
+  "60050101": { name: "BW-Bank / Landesbank Baden-Württemberg", bic: "SOLADEST600" },
+  "70150000": { name: "Stadtsparkasse München", bic: "SSKMDEMMXXX" },
+  "76050101": { name: "Sparkasse Nürnberg", bic: "SSKNDE77XXX" },
+  "85050300": { name: "Ostsächsische Sparkasse Dresden", bic: "OSDDDE81XXX" },
+  "86055592": { name: "Sparkasse Leipzig", bic: "WELADE8LXXX" },
+
+  // Cooperative banks
+  "10090000": { name: "Berliner Volksbank", bic: "BEVODEBBXXX" },
+  "43060967": { name: "GLS Gemeinschaftsbank", bic: "GENODEM1GLS" },
+};
+
+/**
+ * Look up a bank by its Bankleitzahl.
+ */
+export function lookupBankCode(blz: string): BankInfo | undefined {
+  return BANK_CODES[blz];
+}
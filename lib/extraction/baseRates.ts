@@ -0,0 +1,42 @@
+/**
+ * Basiszinssatz according to §247 BGB, as published by the Bundesbank.
+ *
+ * The rate changes on 1 January and 1 July. Periods after the last entry
+ * use the last known rate; extend the table when a new rate is published.
+ */
+
+export interface BaseRatePeriod {
+  from: Date;
+  rate: number; // Percent per year
+}
+
+/** Base rates, oldest first */
+export const BASE_RATES: BaseRatePeriod[] = [
+  { from: new Date(2016, 6, 1), rate: -0.88 },
+  { from: new Date(2023, 0, 1), rate: 1.62 },
+  { from: new Date(2023, 6, 1), rate: 3.12 },
+  { from: new Date(2024, 0, 1), rate: 3.62 },
+  { from: new Date(2024, 6, 1), rate: 3.37 },
+  { from: new Date(2025, 0, 1), rate: 2.27 },
+  { from: new Date(2025, 6, 1), rate: 1.27 },
+];
+
+/**
+ * Base rate in force on the given day.
+ */
+export function getBaseRate(date: Date): number {
+  let rate = BASE_RATES[0].rate;
+  for (const period of BASE_RATES) {
+    if (period.from <= date) rate = period.rate;
+  }
+  return rate;
+}
+
+/**
+ * Whether the table covers the given day (it is not after the last
+ * half-year for which a rate is known).
+ */
+export function isBaseRateKnown(date: Date): boolean {
+  const last = BASE_RATES[BASE_RATES.length - 1].from;
+  return date < new Date(last.getFullYear(), last.getMonth() + 6, 1);
+}
@@ -0,0 +1,82 @@
+/**
+ * Cross-check of QR codes and barcodes against the OCR text.
+ *
+ * A GiroCode carries IBAN, amount and Verwendungszweck in machine-readable
+ * form. Values missing from the OCR text are filled in from the code;
+ * values that disagree produce a warning, because either OCR misread the
+ * letter or the printed code does not belong to it.
+ */
+
+import { DecodedCode, ExtractedData } from "@/types";
+import { formatIBAN, isValidIBAN } from "./iban";
+import { lookupBankCode } from "./bankCodes";
+import { formatEuro } from "./amounts";
+
+/** Amounts closer than this are treated as equal */
+const AMOUNT_TOLERANCE = 0.005;
+
+function compact(value: string): string {
+  return value.replace(/[\s./-]/g, "").toUpperCase();
+}
+
+/**
+ * Merge decoded codes into the extracted data.
+ * Returns a new object; the input is not modified.
+ */
+export function applyDecodedCodes(data: ExtractedData, codes: DecodedCode[]): ExtractedData {
+  if (codes.length === 0) return data;
+
+  const result: ExtractedData = { ...data, codes, codeWarnings: [] };
+  const warnings = result.codeWarnings!;
+
+  for (const code of codes) {
+    const payment = code.payment;
+
+    if (payment) {
+      // IBAN
+      if (result.ibans.length === 0) {
+        const bank = payment.iban.startsWith("DE") ? lookupBankCode(payment.iban.slice(4, 12)) : undefined;
+        result.ibans = [{
+          iban: payment.iban,
+          formatted: formatIBAN(payment.iban),
+          raw: payment.iban,
+          // Not in the text: read from the code
+          start: -1,
+          end: -1,
+          confidence: 1,
+          isValid: isValidIBAN(payment.iban),
+          bankName: bank?.name,
+          bic: payment.bic ?? bank?.bic,
+        }];
+      } else if (!result.ibans.some((i) => i.iban === payment.iban || i.suggestion === payment.iban)) {
+        warnings.push(
+          `Die IBAN im QR-Code (${formatIBAN(payment.iban)}) stimmt nicht mit der IBAN im Text überein.`
+        );
+      }
+
+      // Amount
+      if (Number.isFinite(payment.amount)) {
+        if (!result.amountCheck) {
+          result.amountCheck = { amountDue: payment.amount, isConsistent: true };
+        } else if (Math.abs(result.amountCheck.amountDue - payment.amount) > AMOUNT_TOLERANCE) {
+          warnings.push(
+            `Der Betrag im QR-Code (${formatEuro(payment.amount)}) weicht vom Betrag im Text (${formatEuro(result.amountCheck.amountDue)}) ab.`
+          );
+        }
+      }
+    }
+
+    // Reference: at least one number from the text should appear in the code
+    const content = compact(payment ? payment.reference : code.value);
+    if (content && result.references.length > 0
+      && !result.references.some((r) => content.includes(compact(r.value)))) {
+      warnings.push(
+        payment
+          ? "Der Verwendungszweck im QR-Code enthält keines der Aktenzeichen aus dem Text."
+          : `Der Barcode (${code.value}) enthält keines der Aktenzeichen aus dem Text.`
+      );
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,149 @@
+/**
+ * Plausibility check for Inkassokosten.
+ *
+ * §13e RDG limits the collection fees a debtor has to reimburse to what a
+ * lawyer could charge under the RVG. For an uncontested claim that is a
+ * Geschäftsgebühr of at most 0.9 (VV 2300 RVG; 0.5 if the debtor pays on
+ * the first demand) plus the Auslagenpauschale (VV 7002 RVG, 20 %, at
+ * most 20 €). The fee is looked up from the principal.
+ */
+
+import { CollectionFeeCheck, ExtractedData } from "@/types";
+import { findLetterDate } from "./dates";
+import { formatEuro } from "./amounts";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Highest Geschäftsgebühr for an uncontested claim */
+const MAX_FEE_RATE = 0.9;
+
+/** Fee rate in simple cases (paid on the first demand) */
+const SIMPLE_FEE_RATE = 0.5;
+
+/** Auslagenpauschale: 20 % of the fee, at most 20 € */
+const EXPENSES_RATE = 0.2;
+const MAX_EXPENSES = 20;
+
+/** Full fee for claims up to 50 € (§13 Abs. 2 RVG) */
+const SMALL_CLAIM_LIMIT = 50;
+const SMALL_CLAIM_FEE = 30;
+
+/**
+ * Fee tables of §13 Abs. 1 RVG, newest first: base fee up to 500 €, then
+ * a fixed increment per started step up to each limit. The KostBRÄG 2025
+ * replaced the 2021 table from 01.06.2025.
+ */
+const FEE_TABLES = [
+  {
+    validFrom: new Date(2025, 5, 1),
+    base: 51.5,
+    steps: [
+      { upTo: 2000, step: 500, increment: 41.5 },
+      { upTo: 10000, step: 1000, increment: 59.5 },
+      { upTo: 25000, step: 3000, increment: 55 },
+      { upTo: 50000, step: 5000, increment: 86 },
+      { upTo: 200000, step: 15000, increment: 99.5 },
+      { upTo: 500000, step: 30000, increment: 140 },
+      { upTo: Infinity, step: 50000, increment: 175 },
+    ],
+  },
+  {
+    validFrom: new Date(2021, 0, 1),
+    base: 49,
+    steps: [
+      { upTo: 2000, step: 500, increment: 39 },
+      { upTo: 10000, step: 1000, increment: 56 },
+      { upTo: 25000, step: 3000, increment: 52 },
+      { upTo: 50000, step: 5000, increment: 81 },
+      { upTo: 200000, step: 15000, increment: 94 },
+      { upTo: 500000, step: 30000, increment: 132 },
+      { upTo: Infinity, step: 50000, increment: 165 },
+    ],
+  },
+];
+
+/** Rounding tolerance when comparing with the stated fees */
+const TOLERANCE = 0.01;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Full (1.0) fee for a Gegenstandswert.
+ */
+export function getRvgFee(value: number, date: Date = new Date()): number {
+  if (value <= SMALL_CLAIM_LIMIT) return SMALL_CLAIM_FEE;
+
+  // Older letters are checked against the oldest table kept
+  const table = FEE_TABLES.find(({ validFrom }) => date >= validFrom) ?? FEE_TABLES[FEE_TABLES.length - 1];
+
+  let fee = table.base;
+  let lower = 500;
+  for (const { upTo, step, increment } of table.steps) {
+    if (value <= lower) break;
+    const steps = Math.ceil((Math.min(value, upTo) - lower) / step);
+    fee += steps * increment;
+    lower = upTo;
+  }
+
+  return round(fee);
+}
+
+/**
+ * Geschäftsgebühr at the given rate plus Auslagenpauschale.
+ */
+function computeMaximum(fullFee: number, rate: number): number {
+  const fee = fullFee * rate;
+  return round(fee + Math.min(fee * EXPENSES_RATE, MAX_EXPENSES));
+}
+
+// ============================================================================
+// MAIN CHECK
+// ============================================================================
+
+/**
+ * Compare the itemised collection fees with the cap of §13e RDG.
+ * Only runs for collection agencies (sender type or "Inkasso" in the text).
+ *
+ * @param text - Normalized letter text
+ * @param data - Extracted data (amounts, sender, letter date)
+ * @param today - Fee table date when no letter date is found
+ */
+export function checkCollectionFees(
+  text: string,
+  data: Pick<ExtractedData, "sender" | "dates" | "amounts">,
+  today: Date = new Date()
+): CollectionFeeCheck | undefined {
+  const isCollection = data.sender?.type === "debt_collection" || /inkasso/i.test(text);
+  if (!isCollection) return undefined;
+
+  const principal = data.amounts.find((a) => a.role === "principal")?.value;
+  const feeAmounts = data.amounts.filter((a) => a.role === "collection_costs");
+  const fees = [...new Set(feeAmounts.map((a) => a.value))];
+  if (principal === undefined || feeAmounts.length === 0) return undefined;
+
+  const stated = round(fees.reduce((sum, value) => sum + value, 0));
+  const fullFee = getRvgFee(principal, findLetterDate(data.dates) ?? today);
+  const maximum = computeMaximum(fullFee, MAX_FEE_RATE);
+  const simpleMaximum = computeMaximum(fullFee, SIMPLE_FEE_RATE);
+
+  return {
+    principal,
+    stated,
+    maximum,
+    isPlausible: stated <= maximum + TOLERANCE,
+    start: feeAmounts[0].start,
+    end: feeAmounts[0].end,
+    raw: feeAmounts[0].raw,
+    confidence: feeAmounts[0].confidence,
+    note: `0,9 Geschäftsgebühr aus ${formatEuro(principal)} zzgl. Auslagenpauschale. ` +
+      `Zahlen Sie auf die erste Aufforderung, sind nur ${formatEuro(simpleMaximum)} (0,5 Gebühr) erstattungsfähig.`,
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Contact block extraction.
+ *
+ * Official letters list the Sachbearbeiter, phone and fax numbers, e-mail,
+ * room and office hours in a block next to the address or in the footer.
+ * This tells the user how to actually reach the sender when a
+ * recommendation says "Kontaktieren Sie den Absender".
+ */
+
+import { ContactInfo, ContactNumber } from "@/types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Person name with optional salutation and title: "Frau Dr. Müller-Lüdenscheidt" */
+const PERSON_NAME = "(?:(?:Herr|Frau)[ \\t]+)?(?:(?:Dr|Prof)\\.[ \\t]+)?[A-ZÄÖÜ][a-zäöüß]+(?:-[A-ZÄÖÜ][a-zäöüß]+)?(?:[ \\t]+[A-ZÄÖÜ][a-zäöüß]+(?:-[A-ZÄÖÜ][a-zäöüß]+)?)?";
+
+/** Sachbearbeiter: "Sachbearbeiterin: Frau Müller", "Auskunft erteilt Herr Schmidt" */
+const PERSON_PATTERN = new RegExp(
+  `(?:Sachbearbeiter(?:in)?|Ansprechpartner(?:in)?|Bearbeiter(?:in)?|Auskunft\\s+erteilt|Es\\s+schreibt\\s+Ihnen|Bearbeitet\\s+von)\\s*:?[ \\t]*(${PERSON_NAME})`
+);
+
+/** Labelled phone or fax number; "Telefax" is listed before "Tel" so it wins */
+const NUMBER_PATTERN = /\b(Telefax|Fax|Telefon|Tel\.?|Fon|Durchwahl|Rufnummer|Service-?Hotline|Hotline)[ \t]*:?[ \t]*(\+?\(?\d[\d \t\/\-()]{4,22}\d)/g;
+
+/** E-mail address */
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+\-]+@[A-Za-z0-9.\-]+\.[A-Za-z]{2,}\b/g;
+
+/** Room: "Zimmer 3.14", "Raum A 112", "Zi.-Nr. 204" */
+const ROOM_PATTERN = /\b(?:Zimmer(?:-?Nr\.?)?|Raum|Zi\.(?:-Nr\.)?)\s*:?[ \t]*([A-Z]?[ \t]?\d[\w.\-\/]*)/;
+
+/** Heading of the office hours */
+const OFFICE_HOURS_LABEL = /\b(?:Sprechzeiten|Sprechstunden|Öffnungszeiten|Servicezeiten|Besuchszeiten|Telefonische\s+Erreichbarkeit|Erreichbarkeit|Kassenstunden)\b\s*:?/i;
+
+/** A line that contains office hours: weekday or time range */
+const OFFICE_HOURS_LINE = /\b(?:Mo|Di|Mi|Do|Fr|Sa|Montag|Dienstag|Mittwoch|Donnerstag|Freitag|Samstag)\b.*\d{1,2}(?:[:.]\d{2})?\s*(?:Uhr)?|\d{1,2}[:.]\d{2}\s*(?:Uhr\s*)?(?:-|–|bis)\s*\d{1,2}[:.]\d{2}/;
+
+/** How many lines below the heading may hold office hours */
+const OFFICE_HOURS_MAX_LINES = 5;
+
+/** Labelled postal address */
+const POSTAL_LABEL = /\b(?:Postanschrift|Postadresse|Briefanschrift)\s*:?[ \t]*/;
+
+/** Unlabelled PO box with postcode: "Postfach 10 12 34, 50452 Köln" */
+const PO_BOX_PATTERN = /\bPostfach\s+\d[\d ]*\d?\s*[,·•|]?\s*\d{5}\s+[A-ZÄÖÜ][A-Za-zäöüß\-]+(?:\s+(?:am|an\s+der|im)\s+[A-ZÄÖÜ][A-Za-zäöüß]+)?/;
+
+/** Labelled visiting address */
+const VISITING_LABEL = /\b(?:Hausanschrift|Besucheranschrift|Besuchsanschrift|Besuchsadresse|Dienstgebäude|Dienstsitz)\s*:?[ \t]*/;
+
+/** Postcode and town at the start of a line */
+const POSTCODE_LINE = /^\d{5}\s+[A-ZÄÖÜ]/;
+
+/** Longest address kept from a single line */
+const MAX_ADDRESS_LENGTH = 100;
+
+/** Labelled details (Sachbearbeiter, phone) mark a contact block; an e-mail or PO box alone may be anywhere */
+const CONFIDENCE_LABELLED = 0.9;
+const CONFIDENCE_UNLABELLED = 0.7;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Line of the text and its offset */
+interface Line {
+  text: string;
+  start: number;
+}
+
+/** Value read from the text and the range it was read from */
+interface Located<T> {
+  value: T;
+  start: number;
+  end: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build a tel: link from a printed number ("0221 1234-567" -> "tel:02211234567").
+ * The trunk prefix in "+49 (0)221 ..." is not dialled after the country code.
+ */
+export function toTelHref(number: string): string {
+  const dialable = number.trim().startsWith("+") ? number.replace(/\(\s*0\s*\)/, "") : number;
+  return `tel:${dialable.trim().replace(/(?!^\+)[^\d]/g, "")}`;
+}
+
+function splitLines(text: string): Line[] {
+  let start = 0;
+  return text.split("\n").map((line) => {
+    const entry = { text: line, start };
+    start += line.length + 1;
+    return entry;
+  });
+}
+
+function locateMatch(match: RegExpExecArray | null): [number, number] | undefined {
+  return match ? [match.index, match.index + match[0].length] : undefined;
+}
+
+/**
+ * Read an address that starts at a label: rest of the line, plus the next
+ * line if it holds the postcode and town.
+ */
+function readAddressAfterLabel(lines: Line[], label: RegExp): Located<string> | undefined {
+  for (let i = 0; i < lines.length; i++) {
+    const match = label.exec(lines[i].text);
+    if (!match) continue;
+
+    let address = lines[i].text.substring(match.index + match[0].length).trim();
+    let last = lines[i];
+    const next = lines[i + 1]?.text.trim();
+    if (next && !/\b\d{5}\b/.test(address) && POSTCODE_LINE.test(next)) {
+      address = address ? `${address}, ${next}` : next;
+      last = lines[i + 1];
+    }
+
+    if (address) {
+      return {
+        value: address.substring(0, MAX_ADDRESS_LENGTH).replace(/\s*[·•|]\s*/g, ", "),
+        start: lines[i].start + match.index,
+        end: last.start + last.text.trimEnd().length,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Office hours: the text after the heading and the following lines that
+ * look like hours.
+ */
+function extractOfficeHours(lines: Line[]): Located<string[]> | undefined {
+  const index = lines.findIndex((line) => OFFICE_HOURS_LABEL.test(line.text));
+  if (index === -1) return undefined;
+
+  const hours: string[] = [];
+  let last = lines[index];
+  const rest = lines[index].text.replace(new RegExp(`^.*?${OFFICE_HOURS_LABEL.source}`, "i"), "").trim();
+  if (rest) hours.push(rest);
+
+  for (const line of lines.slice(index + 1, index + 1 + OFFICE_HOURS_MAX_LINES)) {
+    if (!OFFICE_HOURS_LINE.test(line.text)) break;
+    hours.push(line.text.trim());
+    last = line;
+  }
+
+  if (hours.length === 0) return undefined;
+  return { value: hours, start: lines[index].start, end: last.start + last.text.trimEnd().length };
+}
+
+function extractNumbers(text: string): ContactNumber[] {
+  const numbers: ContactNumber[] = [];
+  const regex = new RegExp(NUMBER_PATTERN.source, "g");
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    const number = match[2];
+    const href = toTelHref(number);
+    if (numbers.some((n) => n.href === href)) continue;
+
+    // The number ends the match
+    const end = match.index + match[0].length;
+    numbers.push({
+      kind: /fax/i.test(match[1]) ? "fax" : "phone",
+      number,
+      href,
+      start: end - number.length,
+      end,
+      raw: number,
+      confidence: CONFIDENCE_LABELLED,
+    });
+  }
+
+  return numbers;
+}
+
+// ============================================================================
+// MAIN EXTRACTION
+// ============================================================================
+
+/**
+ * Extract the sender's contact details. Returns undefined if the letter has
+ * no contact block at all.
+ */
+export function extractContact(text: string): ContactInfo | undefined {
+  const lines = splitLines(text);
+
+  const personMatch = PERSON_PATTERN.exec(text);
+  const emailMatches = [...text.matchAll(EMAIL_PATTERN)];
+  const roomMatch = ROOM_PATTERN.exec(text);
+  const poBoxMatch = PO_BOX_PATTERN.exec(text);
+  const numbers = extractNumbers(text);
+  const officeHours = extractOfficeHours(lines);
+  const postalAddress = readAddressAfterLabel(lines, POSTAL_LABEL);
+  const visitingAddress = readAddressAfterLabel(lines, VISITING_LABEL);
+
+  const ranges = [
+    locateMatch(personMatch),
+    ...numbers.map((n): [number, number] => [n.start, n.end]),
+    ...emailMatches.map((m): [number, number] => [m.index ?? 0, (m.index ?? 0) + m[0].length]),
+    locateMatch(roomMatch),
+    officeHours && [officeHours.start, officeHours.end],
+    postalAddress ? [postalAddress.start, postalAddress.end] : locateMatch(poBoxMatch),
+    visitingAddress && [visitingAddress.start, visitingAddress.end],
+  ].filter((range): range is [number, number] => range !== undefined);
+
+  if (ranges.length === 0) return undefined;
+
+  const start = Math.min(...ranges.map(([from]) => from));
+  const end = Math.max(...ranges.map(([, to]) => to));
+
+  return {
+    person: personMatch?.[1],
+    numbers,
+    emails: [...new Set(emailMatches.map((m) => m[0]))],
+    room: roomMatch?.[1].trim(),
+    officeHours: officeHours?.value ?? [],
+    postalAddress: postalAddress?.value ?? poBoxMatch?.[0].replace(/\s*[·•|]\s*/g, ", "),
+    visitingAddress: visitingAddress?.value,
+    start,
+    end,
+    raw: text.substring(start, end),
+    confidence: personMatch || numbers.length > 0 ? CONFIDENCE_LABELLED : CONFIDENCE_UNLABELLED,
+  };
+}
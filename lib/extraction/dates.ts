@@ -0,0 +1,402 @@
+/**
+ * Date extraction with role classification.
+ *
+ * Each date in the text is parsed into a real Date and classified by the
+ * wording around it: "Zahlbar bis 31.01.2026" is a due date, "Ihr Schreiben
+ * vom 03.01.2026" refers to an earlier letter, and a date in the header line
+ * ("Musterstadt, 15.01.2026") is the date of the letter itself.
+ *
+ * Besides DD.MM.YYYY, written-out ("31. Januar 2026", "31. Jan. 2026"), ISO
+ * ("2026-01-31") and vague forms ("Ende Februar", "zum 15. des Monats",
+ * "vom 3.1.") are recognised. Forms without a year are placed relative to
+ * the letter date, or to today if the letter date is unknown.
+ */
+
+import { DateRole, ExtractedDate } from "@/types";
+import { addMonths, createDate, daysBetween, endOfMonth, startOfDay } from "@/lib/calendar/dates";
+import {
+  DATE_PATTERN,
+  ISO_DATE_PATTERN,
+  WRITTEN_DATE_PATTERN,
+  MONTH_PART_PATTERN,
+  DAY_OF_MONTH_PATTERN,
+  SHORT_DATE_PATTERN,
+  LETTER_DATE_PREFIX_PATTERN,
+} from "./patterns";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface DateFormat {
+  pattern: RegExp;
+  /** How reliably a match of this format is a date */
+  confidence: number;
+  /**
+   * Build the date from a match. `reference` is the letter date (or today)
+   * and only used by formats that lack a year or month.
+   */
+  parse: (match: RegExpExecArray, reference: Date) => Date | null;
+}
+
+/** A date match whose date may still change once the letter date is known */
+interface DateCandidate {
+  format: DateFormat;
+  match: RegExpExecArray;
+  start: number;
+  end: number;
+  date: Date | null;
+  role: DateRole;
+}
+
+interface DateRoleRule {
+  role: DateRole;
+  /** Matched against the text directly before the date (same line) */
+  before?: RegExp;
+  /** Matched against the text directly after the date */
+  after?: RegExp;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** How many characters before/after a date are inspected for its role */
+const CONTEXT_WINDOW = 60;
+
+/**
+ * Two-digit years are read as 20yy unless that lies more than this many
+ * years in the future, in which case 19yy is assumed ("Bescheid vom 3.1.98").
+ */
+const TWO_DIGIT_YEAR_FUTURE_LIMIT = 10;
+
+/**
+ * Text between two dates that makes them a period ("01.01.2025 bis
+ * 31.12.2025"). Periods are detected before the role rules so the end of a
+ * period is not read as a due date.
+ */
+const PERIOD_SEPARATOR_PATTERN = /^\s*(?:bis(?:\s+zum|\s+einschlie(?:ß|ss)lich)?|[-–])\s*$/i;
+
+/** Month names and abbreviations, including Austrian and ASCII spellings */
+const MONTH_NAMES: Record<string, number> = {
+  januar: 1, jan: 1, "jänner": 1, jaenner: 1,
+  februar: 2, feb: 2, febr: 2, feber: 2,
+  "märz": 3, maerz: 3, marz: 3, "mär": 3, mrz: 3,
+  april: 4, apr: 4,
+  mai: 5,
+  juni: 6, jun: 6,
+  juli: 7, jul: 7,
+  august: 8, aug: 8,
+  september: 9, sept: 9, sep: 9,
+  oktober: 10, okt: 10,
+  november: 11, nov: 11,
+  dezember: 12, dez: 12,
+};
+
+/** Full month names that are long enough to be matched with one OCR error */
+const FUZZY_MONTH_NAMES = Object.keys(MONTH_NAMES).filter((name) => name.length >= 5);
+
+/** Day used for "Anfang", "Mitte", "Ende" of a month (0 = last day) */
+const MONTH_PART_DAYS: Record<string, number> = {
+  anfang: 1,
+  mitte: 15,
+  ende: 0,
+};
+
+/**
+ * Role rules, checked in order. The first matching rule wins.
+ */
+const DATE_ROLE_RULES: DateRoleRule[] = [
+  { role: "notice_date", before: /bescheid(?:es)?\s+(?:vom|v\.)\s*$/i },
+  { role: "reference_date", before: /(?:schreiben|brief|antrag|nachricht|mahnung|e-?mail|anfrage|rechnung)\s+(?:vom|v\.)\s*$/i },
+  { role: "hearing_date", before: /(?:termin|verhandlung|anh[öo]rung|vorsprache|ladung|erscheinen|vorstellen)\b[^.\n]{0,30}?(?:am|f[üu]r\s+den)\s*$/i },
+  {
+    role: "due_date",
+    before: /(?:zahlbar|f[äa]llig|zahlungsziel|frist|sp[äa]testens|bis\s+(?:sp[äa]testens\s+)?(?:zum\s+)?|eingang\s+(?:bis|sp[äa]testens))[^.\n]{0,15}?[:.]?\s*(?:am\s+|zum\s+|bis\s+)?$/i,
+  },
+  { role: "due_date", after: /^\s*(?:f[äa]llig|zu\s+(?:zahlen|begleichen|überweisen))/i },
+];
+
+/** German labels for date roles */
+export const DATE_ROLE_LABELS: Record<DateRole, string> = {
+  letter_date: "Schreiben vom",
+  due_date: "Zahlbar bis",
+  notice_date: "Bescheid vom",
+  reference_date: "Bezug auf Schreiben vom",
+  hearing_date: "Termin",
+  period_start: "Zeitraum ab",
+  period_end: "Zeitraum bis",
+  unknown: "Weitere Daten",
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Expand a two-digit year relative to the current year.
+ */
+export function expandTwoDigitYear(year: number, today: Date = new Date()): number {
+  const candidate = 2000 + year;
+  return candidate > today.getFullYear() + TWO_DIGIT_YEAR_FUTURE_LIMIT
+    ? 1900 + year
+    : candidate;
+}
+
+/**
+ * Parse day, month and year parts into a Date.
+ * Returns null for impossible dates like 31.02., month 13 or a three-digit year.
+ */
+export function parseDateParts(day: number, month: number, year: number): Date | null {
+  if (year >= 100 && year < 1900) return null;
+  const fullYear = year < 100 ? expandTwoDigitYear(year) : year;
+  return createDate(fullYear, month, day);
+}
+
+/**
+ * Parse a DD.MM.YYYY / DD.MM.YY string into a Date.
+ */
+export function parseGermanDate(value: string): Date | null {
+  const match = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2,4})$/);
+  if (!match) return null;
+  return parseDateParts(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+}
+
+/**
+ * Edit distance between two short words.
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Parse a month name ("Januar", "Jan", "Marz") into 1-12.
+ * Full names also match with one OCR error ("Dezernber", "0ktober"), as
+ * long as only one month is that close.
+ */
+export function parseMonthName(value: string): number | undefined {
+  const word = value
+    .toLowerCase()
+    .replace(/0/g, "o")
+    .replace(/1/g, "l")
+    .replace(/rn/g, "m");
+  if (MONTH_NAMES[word] !== undefined) return MONTH_NAMES[word];
+  if (word.length < 5) return undefined;
+
+  const close = new Set(
+    FUZZY_MONTH_NAMES
+      .filter((name) => levenshtein(word, name) <= 1)
+      .map((name) => MONTH_NAMES[name])
+  );
+  return close.size === 1 ? [...close][0] : undefined;
+}
+
+/**
+ * Place a day and month in the year that puts it closest to the reference
+ * ("vom 3.1." in a letter of 15.01.2026 is 03.01.2026; "bis 10.2." in a
+ * letter of 20.12.2025 is 10.02.2026).
+ */
+function resolveYear(day: number, month: number, reference: Date): Date | null {
+  let best: Date | null = null;
+
+  for (const offset of [-1, 0, 1]) {
+    const candidate = day === 0
+      ? endOfMonth(new Date(reference.getFullYear() + offset, month - 1, 1))
+      : createDate(reference.getFullYear() + offset, month, day);
+    if (!candidate) continue;
+    if (!best || Math.abs(daysBetween(reference, candidate)) < Math.abs(daysBetween(reference, best))) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Build a date from day, month and an optional year. Day 0 means the last
+ * day of the month.
+ */
+function buildDate(day: number, month: number, year: string | undefined, reference: Date): Date | null {
+  if (year === undefined) return resolveYear(day, month, reference);
+  if (day === 0) return endOfMonth(new Date(parseInt(year, 10), month - 1, 1));
+  return parseDateParts(day, month, parseInt(year, 10));
+}
+
+/** Supported date formats, most specific first; overlapping matches of later formats are dropped */
+const DATE_FORMATS: DateFormat[] = [
+  {
+    pattern: DATE_PATTERN,
+    confidence: 0.9,
+    parse: (m) => parseDateParts(parseInt(m[1], 10), parseInt(m[2], 10), parseInt(m[3], 10)),
+  },
+  {
+    pattern: ISO_DATE_PATTERN,
+    confidence: 0.95,
+    parse: (m) => parseDateParts(parseInt(m[3], 10), parseInt(m[2], 10), parseInt(m[1], 10)),
+  },
+  {
+    pattern: WRITTEN_DATE_PATTERN,
+    confidence: 0.85,
+    parse: (m, reference) => {
+      const day = parseInt(m[1], 10);
+      const month = parseMonthName(m[2]);
+      return month === undefined || day < 1 ? null : buildDate(day, month, m[3], reference);
+    },
+  },
+  {
+    pattern: MONTH_PART_PATTERN,
+    confidence: 0.6,
+    parse: (m, reference) => {
+      const month = parseMonthName(m[2]);
+      return month === undefined ? null : buildDate(MONTH_PART_DAYS[m[1].toLowerCase()], month, m[3], reference);
+    },
+  },
+  {
+    pattern: DAY_OF_MONTH_PATTERN,
+    confidence: 0.6,
+    parse: (m, reference) => {
+      const day = parseInt(m[1], 10);
+      const nextMonth = m[3] !== undefined || (m[2] !== undefined && !/laufenden/i.test(m[2]));
+      const thisMonth = createDate(reference.getFullYear(), reference.getMonth() + 1, day);
+      // "des Monats" means the next occurrence of that day
+      if (!nextMonth && thisMonth && thisMonth >= startOfDay(reference)) return thisMonth;
+      const following = addMonths(new Date(reference.getFullYear(), reference.getMonth(), 1), 1);
+      return createDate(following.getFullYear(), following.getMonth() + 1, day);
+    },
+  },
+  {
+    pattern: SHORT_DATE_PATTERN,
+    confidence: 0.7,
+    parse: (m, reference) => resolveYear(parseInt(m[1], 10), parseInt(m[2], 10), reference),
+  },
+];
+
+// ============================================================================
+// ROLE CLASSIFICATION
+// ============================================================================
+
+/**
+ * Classify a date by the text surrounding it.
+ */
+function classifyDateRole(text: string, start: number, end: number): DateRole {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const linePrefix = text.substring(lineStart, start);
+
+  if (LETTER_DATE_PREFIX_PATTERN.test(linePrefix)) {
+    return "letter_date";
+  }
+
+  const before = text.substring(Math.max(lineStart, start - CONTEXT_WINDOW), start);
+  const after = text.substring(end, end + CONTEXT_WINDOW);
+
+  for (const rule of DATE_ROLE_RULES) {
+    if (rule.before && rule.before.test(before)) return rule.role;
+    if (rule.after && rule.after.test(after)) return rule.role;
+  }
+
+  return "unknown";
+}
+
+/**
+ * Classify all candidates, including periods.
+ */
+function classifyCandidates(text: string, candidates: DateCandidate[]): void {
+  for (const candidate of candidates) {
+    candidate.role = classifyDateRole(text, candidate.start, candidate.end);
+  }
+  classifyPeriods(text, candidates);
+}
+
+/**
+ * Mark pairs of dates joined by "bis" or a dash as a period.
+ */
+function classifyPeriods(text: string, candidates: DateCandidate[]): void {
+  for (let i = 0; i + 1 < candidates.length; i++) {
+    const gap = text.substring(candidates[i].end, candidates[i + 1].start);
+    if (PERIOD_SEPARATOR_PATTERN.test(gap)) {
+      candidates[i].role = "period_start";
+      candidates[i + 1].role = "period_end";
+    }
+  }
+}
+
+// ============================================================================
+// MAIN EXTRACTION
+// ============================================================================
+
+/**
+ * Find all date matches, dropping matches that overlap a more specific format.
+ */
+function findDateCandidates(text: string, today: Date): DateCandidate[] {
+  const candidates: DateCandidate[] = [];
+
+  for (const format of DATE_FORMATS) {
+    const regex = new RegExp(format.pattern.source, format.pattern.flags);
+    let match;
+
+    while ((match = regex.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+      const date = format.parse(match, today);
+      if (!date || candidates.some((c) => start < c.end && end > c.start)) continue;
+
+      candidates.push({ format, match, start, end, date, role: "unknown" });
+    }
+  }
+
+  return candidates.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Extract all valid dates with their position and role.
+ * Invalid dates (31.02.2026, 15.13.2026) are skipped, since they are
+ * almost always OCR errors or not dates at all (e.g. version numbers).
+ *
+ * @param text - Normalized letter text
+ * @param today - Reference for dates without year if no letter date is found
+ */
+export function extractDates(text: string, today: Date = new Date()): ExtractedDate[] {
+  const candidates = findDateCandidates(text, today);
+  classifyCandidates(text, candidates);
+
+  // Dates without a year are placed relative to the letter date
+  const letterDate = candidates.find((c) => c.role === "letter_date")?.date;
+  if (letterDate) {
+    for (const candidate of candidates) {
+      candidate.date = candidate.format.parse(candidate.match, letterDate);
+    }
+    classifyCandidates(text, candidates);
+  }
+
+  return candidates
+    .filter((c): c is DateCandidate & { date: Date } => c.date !== null)
+    .map((c) => ({
+      date: c.date,
+      raw: text.substring(c.start, c.end),
+      start: c.start,
+      end: c.end,
+      confidence: c.format.confidence,
+      role: c.role,
+    }));
+}
+
+/**
+ * The date of the letter itself, if found.
+ */
+export function findLetterDate(dates: ExtractedDate[]): Date | undefined {
+  return dates.find((d) => d.role === "letter_date")?.date;
+}
@@ -0,0 +1,276 @@
+/**
+ * Deadline resolution: turns deadline expressions into a concrete due date.
+ *
+ * Resolution order:
+ * 1. Explicit due date ("bis spätestens 31.01.2026") that is not already
+ *    over at the time the letter was written or read
+ * 2. End of month ("bis zum Monatsende"), anchored on the letter date
+ * 3. Relative period ("innerhalb eines Monats nach Bekanntgabe"), anchored
+ *    on the fictitious receipt date (Bekanntgabefiktion)
+ * 4. A past due date ("war am 15.01.2026 fällig") as last resort
+ *
+ * If no letter date is found, relative periods are counted from the day of
+ * analysis, since the letter has obviously been received by then.
+ *
+ * A deadline ending on a weekend or public holiday is moved to the next
+ * working day (§193 BGB, §222 Abs. 2 ZPO).
+ */
+
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  formatDate,
+  formatDateWithWeekday,
+  startOfDay,
+} from "@/lib/calendar/dates";
+import { Bundesland, ExtractedDate, SourceSpan } from "@/types";
+import { getHolidayName, shiftToWorkingDay } from "@/lib/calendar/holidays";
+import { findLetterDate } from "./dates";
+import {
+  RELATIVE_DEADLINE_PATTERN,
+  MONTH_END_PATTERN,
+} from "./patterns";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ResolvedDeadline {
+  /** Calendar day by which the user has to act */
+  date: Date;
+  /** Human-readable explanation of how the date was computed */
+  note: string;
+  /** Date or phrase in the letter the deadline was resolved from */
+  span?: SourceSpan;
+}
+
+type PeriodUnit = "day" | "workday" | "week" | "month";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Since 01.01.2025 (PostModG) a posted letter counts as received on the
+ * fourth day after posting, before that on the third day
+ * (§122 Abs. 2 AO, §41 Abs. 2 VwVfG, §37 Abs. 2 SGB X).
+ */
+const BEKANNTGABE_CUTOVER = new Date(2025, 0, 1);
+const BEKANNTGABE_DAYS_BEFORE_CUTOVER = 3;
+const BEKANNTGABE_DAYS = 4;
+
+/** Confidence of a deadline computed from a phrase ("bis zum Monatsende") */
+const CONFIDENCE_PHRASE = 0.8;
+
+/** Number words used in deadline phrases */
+const NUMBER_WORDS: Record<string, number> = {
+  ein: 1, eine: 1, einen: 1, eines: 1, einem: 1,
+  zwei: 2, drei: 3, vier: 4, "fünf": 5, funf: 5, sechs: 6, sieben: 7,
+  acht: 8, neun: 9, zehn: 10, elf: 11, "zwölf": 12, zwolf: 12, vierzehn: 14,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parse a count written as digits or as a number word ("zwei", "einen").
+ */
+export function parseCount(value: string): number | undefined {
+  const lower = value.toLowerCase();
+  if (/^\d+$/.test(lower)) return parseInt(lower, 10);
+  return NUMBER_WORDS[lower];
+}
+
+function parseUnit(value: string): PeriodUnit {
+  const lower = value.toLowerCase();
+  if (lower.startsWith("werktag")) return "workday";
+  if (lower.startsWith("woche")) return "week";
+  if (lower.startsWith("monat")) return "month";
+  return "day";
+}
+
+/**
+ * Add n Werktage. Saturdays count as Werktage, Sundays and holidays do not.
+ */
+function addWorkdays(date: Date, count: number, bundesland?: Bundesland): Date {
+  let result = date;
+  let remaining = count;
+  while (remaining > 0) {
+    result = addDays(result, 1);
+    if (result.getDay() !== 0 && getHolidayName(result, bundesland) === undefined) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+/**
+ * End of a period starting after the anchor day (§187 Abs. 1, §188 BGB).
+ */
+function addPeriod(anchor: Date, count: number, unit: PeriodUnit, bundesland?: Bundesland): Date {
+  switch (unit) {
+    case "day": return addDays(anchor, count);
+    case "workday": return addWorkdays(anchor, count, bundesland);
+    case "week": return addDays(anchor, count * 7);
+    case "month": return addMonths(anchor, count);
+  }
+}
+
+function describePeriod(count: number, unit: PeriodUnit): string {
+  switch (unit) {
+    case "day": return `${count} ${count === 1 ? "Tag" : "Tage"}`;
+    case "workday": return `${count} ${count === 1 ? "Werktag" : "Werktage"}`;
+    case "week": return `${count} ${count === 1 ? "Woche" : "Wochen"}`;
+    case "month": return `${count} ${count === 1 ? "Monat" : "Monate"}`;
+  }
+}
+
+/**
+ * Span of a deadline phrase in the text.
+ */
+function toPhraseSpan(match: RegExpExecArray): SourceSpan {
+  return { start: match.index, end: match.index + match[0].length, raw: match[0], confidence: CONFIDENCE_PHRASE };
+}
+
+/**
+ * Span of an explicit date.
+ */
+function toDateSpan({ start, end, raw, confidence }: ExtractedDate): SourceSpan {
+  return { start, end, raw, confidence };
+}
+
+/**
+ * Days between posting and fictitious receipt for a letter of this date.
+ */
+function getBekanntgabeDays(letterDate: Date): number {
+  return letterDate < BEKANNTGABE_CUTOVER
+    ? BEKANNTGABE_DAYS_BEFORE_CUTOVER
+    : BEKANNTGABE_DAYS;
+}
+
+/**
+ * Fictitious receipt date for a posted letter.
+ */
+export function getBekanntgabeDate(letterDate: Date): Date {
+  return addDays(letterDate, getBekanntgabeDays(letterDate));
+}
+
+// ============================================================================
+// MAIN RESOLUTION
+// ============================================================================
+
+/**
+ * Move a resolved deadline off weekends and holidays and explain the shift.
+ */
+export function applyWorkingDayShift(
+  deadline: ResolvedDeadline,
+  bundesland?: Bundesland
+): ResolvedDeadline {
+  const shifted = shiftToWorkingDay(deadline.date, bundesland);
+  if (!shifted.reason) return deadline;
+
+  return {
+    ...deadline,
+    date: shifted.date,
+    note: `${deadline.note}; verschoben von ${formatDateWithWeekday(deadline.date)} (${shifted.reason}, §193 BGB)`,
+  };
+}
+
+/**
+ * Resolve the deadline of a letter into a concrete calendar day.
+ *
+ * @param text - Normalized letter text, without the Rechtsbehelfsbelehrung
+ * @param dates - Role-classified dates found in the text
+ * @param bundesland - User's state for holiday shifting; nationwide holidays only if unset
+ * @param today - Analysis date, used when no letter date is found
+ */
+export function resolveDeadline(
+  text: string,
+  dates: ExtractedDate[],
+  bundesland?: Bundesland,
+  today: Date = new Date()
+): ResolvedDeadline | undefined {
+  const deadline = resolveUnshiftedDeadline(text, dates, bundesland, today);
+  return deadline && applyWorkingDayShift(deadline, bundesland);
+}
+
+/**
+ * Resolve a RELATIVE_DEADLINE_PATTERN match ("innerhalb eines Monats nach
+ * Bekanntgabe") into its unshifted end, counted from the fictitious receipt
+ * of the letter, or from today if the letter date is unknown.
+ */
+export function resolveRelativePeriod(
+  match: RegExpExecArray,
+  letterDate: Date | undefined,
+  bundesland: Bundesland | undefined,
+  today: Date
+): ResolvedDeadline | undefined {
+  const count = parseCount(match[1]);
+  if (count === undefined) return undefined;
+
+  const unit = parseUnit(match[2]);
+  const period = describePeriod(count, unit);
+
+  if (letterDate) {
+    const receipt = getBekanntgabeDate(letterDate);
+    return {
+      date: addPeriod(receipt, count, unit, bundesland),
+      note: `${period} ab Bekanntgabe am ${formatDate(receipt)} (Schreiben vom ${formatDate(letterDate)} + ${getBekanntgabeDays(letterDate)} Tage Postlaufzeit)`,
+    };
+  }
+
+  return {
+    date: addPeriod(today, count, unit, bundesland),
+    note: `${period} ab heute (Briefdatum nicht erkannt)`,
+  };
+}
+
+/**
+ * Resolve the raw end of the deadline, before weekend/holiday shifting.
+ */
+function resolveUnshiftedDeadline(
+  text: string,
+  dates: ExtractedDate[],
+  bundesland: Bundesland | undefined,
+  today: Date
+): ResolvedDeadline | undefined {
+  const letterDate = findLetterDate(dates);
+  const dueDates = dates.filter((d) => d.role === "due_date");
+
+  // 1. Explicit due date that is still open
+  const openingDay = startOfDay(letterDate ?? today);
+  const openDueDate = dueDates.find((d) => d.date >= openingDay);
+  if (openDueDate) {
+    return { date: openDueDate.date, note: "Im Schreiben genanntes Datum", span: toDateSpan(openDueDate) };
+  }
+
+  // 2. End of month, counted from the letter date
+  const monthEndMatch = MONTH_END_PATTERN.exec(text);
+  if (monthEndMatch) {
+    const anchor = letterDate ?? today;
+    return {
+      date: endOfMonth(anchor),
+      note: letterDate
+        ? `Monatsende nach Schreiben vom ${formatDate(letterDate)}`
+        : "Monatsende (Briefdatum nicht erkannt)",
+      span: toPhraseSpan(monthEndMatch),
+    };
+  }
+
+  // 3. Relative period, counted from the (fictitious) receipt
+  const relativeMatch = RELATIVE_DEADLINE_PATTERN.exec(text);
+  if (relativeMatch) {
+    const resolved = resolveRelativePeriod(relativeMatch, letterDate, bundesland, today);
+    return resolved && { ...resolved, span: toPhraseSpan(relativeMatch) };
+  }
+
+  // 4. Past due date, e.g. "war am 15.01.2026 fällig"
+  const lastDueDate = dueDates[dueDates.length - 1];
+  if (lastDueDate) {
+    return { date: lastDueDate.date, note: "Im Schreiben genanntes Datum (bereits abgelaufen)", span: toDateSpan(lastDueDate) };
+  }
+
+  return undefined;
+}
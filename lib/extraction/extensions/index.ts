@@ -0,0 +1,18 @@
+/**
+ * Custom domain extractors.
+ *
+ * Each module declares its output type on ExtractionExtensions and exports
+ * an extractor; registering it here is all extractData needs.
+ */
+
+import { registerExtractor } from "../registry";
+import { licensePlateExtractor } from "./licensePlate";
+
+export type { LicensePlate } from "./licensePlate";
+
+/**
+ * Register the custom extractors.
+ */
+export function registerExtensions(): void {
+  registerExtractor(licensePlateExtractor);
+}
@@ -0,0 +1,61 @@
+/**
+ * Kfz-Kennzeichen in Bußgeld and Verwarnungsgeld letters.
+ *
+ * Example of a domain extractor: it declares its output type on
+ * ExtractionExtensions and is registered in ./index.
+ */
+
+import { SourceSpan } from "@/types";
+import { Extractor } from "../registry";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Vehicle registration named in the letter */
+export interface LicensePlate extends SourceSpan {
+  value: string;       // Normalised, e.g. "M-AB 1234"
+}
+
+declare module "@/types" {
+  interface ExtractionExtensions {
+    licensePlate: LicensePlate | undefined;
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Labelled Kennzeichen: "Amtliches Kennzeichen: M-AB 1234", "Kfz-Kennzeichen B XY 12E".
+ * Groups: whole plate, district, letters, digits with optional E (electric)
+ * or H (historic).
+ */
+const LICENSE_PLATE_PATTERN = /(?:amtl(?:iches|\.)\s+|Kfz-?\s?)?Kennzeichen:?\s*(([A-ZÄÖÜ]{1,3})[- ]([A-Z]{1,2}) ?(\d{1,4}[EH]?))\b/;
+
+/** Labelled plates are reliable, but OCR often splits the groups */
+const LICENSE_PLATE_CONFIDENCE = 0.85;
+
+// ============================================================================
+// EXTRACTOR
+// ============================================================================
+
+export const licensePlateExtractor: Extractor<"licensePlate"> = {
+  id: "licensePlate",
+  run: ({ text }) => {
+    const match = LICENSE_PLATE_PATTERN.exec(text);
+    if (!match) return undefined;
+
+    // The plate ends the match
+    const end = match.index + match[0].length;
+
+    return {
+      value: `${match[2]}-${match[3]} ${match[4]}`,
+      start: end - match[1].length,
+      end,
+      raw: match[1],
+      confidence: LICENSE_PLATE_CONFIDENCE,
+    };
+  },
+};
@@ -1,90 +1,28 @@
 /**
  * Data extraction from letter text.
+ *
+ * Registers the core extractors and runs them together with the custom
+ * extractors from ./extensions through the registry.
  */
 
-import { ExtractedData } from "@/types";
-import {
-  DATE_PATTERN,
-  AMOUNT_PATTERN,
-  IBAN_PATTERN,
-  REFERENCE_PATTERN,
-  DEADLINE_DAYS_PATTERN,
-} from "./patterns";
-
-/**
- * Parse German number format (1.234,56) to number.
- */
-function parseGermanNumber(value: string): number {
-  // Remove thousand separators (dots) and replace decimal comma with dot
-  const normalized = value.replace(/\./g, "").replace(",", ".");
-  return parseFloat(normalized);
-}
-
-/**
- * Extract all dates from text.
- */
-function extractDates(text: string): string[] {
-  const dates: string[] = [];
-  const regex = new RegExp(DATE_PATTERN.source, "g");
-  let match;
-
-  while ((match = regex.exec(text)) !== null) {
-    dates.push(match[0]);
-  }
-
-  return [...new Set(dates)]; // Remove duplicates
-}
-
-/**
- * Extract all currency amounts from text.
- */
-function extractAmounts(text: string): { value: number; formatted: string }[] {
-  const amounts: { value: number; formatted: string }[] = [];
-  const regex = new RegExp(AMOUNT_PATTERN.source, "gi");
-  let match;
-
-  while ((match = regex.exec(text)) !== null) {
-    const value = parseGermanNumber(match[1]);
-    if (!isNaN(value)) {
-      amounts.push({
-        value,
-        formatted: match[0].trim(),
-      });
-    }
-  }
-
-  return amounts;
-}
-
-/**
- * Extract all IBANs from text.
- */
-function extractIBANs(text: string): string[] {
-  const ibans: string[] = [];
-  const regex = new RegExp(IBAN_PATTERN.source, "gi");
-  let match;
-
-  while ((match = regex.exec(text)) !== null) {
-    ibans.push(match[1].replace(/\s/g, ""));
-  }
-
-  return [...new Set(ibans)];
-}
-
-/**
- * Extract reference numbers from text.
- */
-function extractReferences(text: string): string[] {
-  const references: string[] = [];
-  const regex = new RegExp(REFERENCE_PATTERN.source, "gi");
-  let match;
-
-  while ((match = regex.exec(text)) !== null) {
-    references.push(match[1]);
-  }
-
-  return [...new Set(references)];
-}
+import { ExtractedData, ExtractionExtensions } from "@/types";
+import { DEADLINE_DAYS_PATTERN } from "./patterns";
+import { resolveDeadline } from "./deadline";
+import { blankLegalRemedySection } from "./legalRemedy";
+import { extractDates } from "./dates";
+import { extractIBANs } from "./iban";
+import { extractAmounts, checkAmounts } from "./amounts";
+import { extractSender } from "./sender";
+import { extractReferences } from "./references";
+import { extractContact } from "./contact";
+import { extractInstalmentPlan } from "./instalments";
+import { checkLateCharges } from "./lateCharges";
+import { checkCollectionFees } from "./collectionFees";
+import { checkLimitation } from "./limitation";
+import { Extractor, ExtractorId, ExtractionOptions, registerExtractor, runExtractors } from "./registry";
+import { registerExtensions } from "./extensions";
+
+export type { ExtractionOptions } from "./registry";
 
 /**
  * Extract deadline days from text.
@@ -100,15 +38,84 @@ function extractDeadlineDays(text: string): number | undefined {
   return undefined;
 }
 
+/** Core extractors; their results fill the fields of ExtractedData */
+const CORE_EXTRACTORS = [
+  { id: "sender", run: ({ text }) => extractSender(text) } satisfies Extractor<"sender">,
+  { id: "contact", run: ({ text }) => extractContact(text) } satisfies Extractor<"contact">,
+  { id: "dates", run: ({ text }) => extractDates(text) } satisfies Extractor<"dates">,
+  { id: "amounts", run: ({ text }) => extractAmounts(text) } satisfies Extractor<"amounts">,
+  {
+    id: "amountCheck",
+    dependsOn: ["amounts"],
+    run: ({ text, get }) => checkAmounts(text, get("amounts")),
+  } satisfies Extractor<"amountCheck">,
+  { id: "ibans", run: ({ text }) => extractIBANs(text) } satisfies Extractor<"ibans">,
+  { id: "references", run: ({ text }) => extractReferences(text) } satisfies Extractor<"references">,
+  { id: "deadlineDays", run: ({ text }) => extractDeadlineDays(text) } satisfies Extractor<"deadlineDays">,
+  {
+    id: "deadline",
+    dependsOn: ["dates"],
+    // The appeal period of the Rechtsbehelfsbelehrung is parsed separately
+    run: ({ text, options, get }) => resolveDeadline(blankLegalRemedySection(text), get("dates"), options.bundesland),
+  } satisfies Extractor<"deadline">,
+  {
+    id: "instalmentPlan",
+    dependsOn: ["dates", "amountCheck"],
+    run: ({ text, get }) => extractInstalmentPlan(text, get("dates"), get("amountCheck")),
+  } satisfies Extractor<"instalmentPlan">,
+  // Plausibility of late charges and Inkassokosten, Verjährung
+  {
+    id: "lateCharges",
+    dependsOn: ["sender", "dates", "amounts"],
+    run: ({ text, get }) =>
+      checkLateCharges(text, { sender: get("sender"), dates: get("dates"), amounts: get("amounts") }),
+  } satisfies Extractor<"lateCharges">,
+  {
+    id: "collectionFees",
+    dependsOn: ["sender", "dates", "amounts"],
+    run: ({ text, get }) =>
+      checkCollectionFees(text, { sender: get("sender"), dates: get("dates"), amounts: get("amounts") }),
+  } satisfies Extractor<"collectionFees">,
+  {
+    id: "limitation",
+    dependsOn: ["sender", "dates", "amounts"],
+    run: ({ text, get }) =>
+      checkLimitation(text, { sender: get("sender"), dates: get("dates"), amounts: get("amounts") }),
+  } satisfies Extractor<"limitation">,
+];
+
+const CORE_IDS: ExtractorId[] = CORE_EXTRACTORS.map((extractor) => extractor.id);
+
+CORE_EXTRACTORS.forEach((extractor) => registerExtractor<ExtractorId>(extractor));
+registerExtensions();
+
 /**
  * Extract all data from text.
  */
-export function extractData(text: string): ExtractedData {
+export function extractData(text: string, options: ExtractionOptions = {}): ExtractedData {
+  const results = runExtractors(text, options);
+
+  // Everything that is not a core field is a custom extractor's result
+  const extensions = Object.fromEntries(
+    Object.entries(results).filter(([id]) => !CORE_IDS.includes(id as ExtractorId))
+  ) as Partial<ExtractionExtensions>;
+
   return {
-    dates: extractDates(text),
-    amounts: extractAmounts(text),
-    ibans: extractIBANs(text),
-    references: extractReferences(text),
-    deadlineDays: extractDeadlineDays(text),
+    sender: results.sender,
+    contact: results.contact,
+    dates: results.dates ?? [],
+    amounts: results.amounts ?? [],
+    amountCheck: results.amountCheck,
+    ibans: results.ibans ?? [],
+    references: results.references ?? [],
+    deadlineDays: results.deadlineDays,
+    deadlineDate: results.deadline?.date,
+    deadlineNote: results.deadline?.note,
+    deadlineSpan: results.deadline?.span,
+    instalmentPlan: results.instalmentPlan,
+    lateCharges: results.lateCharges,
+    collectionFees: results.collectionFees,
+    limitation: results.limitation,
+    extensions,
   };
 }
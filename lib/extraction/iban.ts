@@ -0,0 +1,189 @@
+/**
+ * IBAN extraction and validation.
+ *
+ * Every IBAN is checked with the ISO 13616 mod-97 checksum. German IBANs
+ * are resolved to a bank via the bundled BLZ table. When the checksum fails,
+ * common OCR digit confusions are tried to suggest the likely correct IBAN —
+ * a user about to pay must never get a silently wrong account number.
+ */
+
+import { ExtractedIBAN } from "@/types";
+import { lookupBankCode } from "./bankCodes";
+import { IBAN_PATTERN, BIC_PATTERN } from "./patterns";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Letters that OCR produces in place of digits. In the numeric part of a
+ * German IBAN they can only ever mean the digit, so they are fixed directly.
+ */
+const LETTER_TO_DIGIT: Record<string, string> = {
+  O: "0",
+  o: "0",
+  I: "1",
+  l: "1",
+  B: "8",
+  S: "5",
+};
+
+/** Digits that OCR commonly confuses with each other */
+const DIGIT_CONFUSIONS: Record<string, string[]> = {
+  "0": ["8", "6", "9"],
+  "1": ["7"],
+  "3": ["8"],
+  "5": ["6", "8"],
+  "6": ["0", "5", "8"],
+  "7": ["1"],
+  "8": ["0", "3", "5", "6", "9"],
+  "9": ["0", "8"],
+};
+
+/** Confidence of a valid IBAN, of one with letters read as digits, of one with a suggested fix and of an invalid one */
+const CONFIDENCE_VALID = 0.99;
+const CONFIDENCE_FIXED_LETTERS = 0.8;
+const CONFIDENCE_SUGGESTED = 0.5;
+const CONFIDENCE_INVALID = 0.3;
+
+/** How far after an IBAN a labelled BIC is still attributed to it */
+const BIC_SEARCH_WINDOW = 120;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Compute the ISO 7064 mod-97 remainder of an IBAN.
+ * Letters count as 10 (A) to 35 (Z); the country code and check digits are
+ * moved to the end first.
+ */
+function mod97(iban: string): number {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const value = parseInt(char, 36).toString();
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder;
+}
+
+/**
+ * Check an IBAN against the ISO 13616 checksum.
+ */
+export function isValidIBAN(iban: string): boolean {
+  const compact = iban.replace(/\s/g, "").toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) return false;
+  return mod97(compact) === 1;
+}
+
+/**
+ * Format an IBAN in groups of four characters.
+ */
+export function formatIBAN(iban: string): string {
+  return iban.replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+// ============================================================================
+// OCR REPAIR
+// ============================================================================
+
+/**
+ * Replace letters in the numeric part (after the country code) by digits.
+ */
+function fixDigitLetters(iban: string): string {
+  return iban.slice(0, 2).toUpperCase() +
+    iban.slice(2).replace(/[OoIlBS]/g, (char) => LETTER_TO_DIGIT[char]);
+}
+
+/**
+ * Suggest the likely correct IBAN for one that fails the checksum.
+ *
+ * Tries every single-character OCR confusion and every swap of two adjacent
+ * digits. Only returns a suggestion if it is unambiguous; if several
+ * candidates pass, one with a known Bankleitzahl is preferred.
+ */
+export function suggestIBANCorrection(iban: string): string | undefined {
+  const candidates = new Set<string>();
+
+  for (let i = 2; i < iban.length; i++) {
+    for (const replacement of DIGIT_CONFUSIONS[iban[i]] ?? []) {
+      const candidate = iban.slice(0, i) + replacement + iban.slice(i + 1);
+      if (isValidIBAN(candidate)) candidates.add(candidate);
+    }
+
+    if (i + 1 < iban.length && iban[i] !== iban[i + 1]) {
+      const swapped = iban.slice(0, i) + iban[i + 1] + iban[i] + iban.slice(i + 2);
+      if (isValidIBAN(swapped)) candidates.add(swapped);
+    }
+  }
+
+  if (candidates.size === 1) {
+    return [...candidates][0];
+  }
+
+  const withKnownBank = [...candidates].filter(
+    (c) => c.startsWith("DE") && lookupBankCode(c.slice(4, 12)) !== undefined
+  );
+  return withKnownBank.length === 1 ? withKnownBank[0] : undefined;
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * Find a BIC that is explicitly labelled shortly after the IBAN.
+ */
+function findNearbyBIC(text: string, ibanEnd: number): string | undefined {
+  const window = text.substring(ibanEnd, ibanEnd + BIC_SEARCH_WINDOW);
+  const match = new RegExp(BIC_PATTERN.source).exec(window);
+  return match ? match[1].toUpperCase() : undefined;
+}
+
+/**
+ * Extract all IBANs with checksum result, bank and BIC.
+ */
+export function extractIBANs(text: string): ExtractedIBAN[] {
+  const ibans: ExtractedIBAN[] = [];
+  const seen = new Set<string>();
+  const regex = new RegExp(IBAN_PATTERN.source, "g");
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    const compact = match[1].replace(/\s/g, "");
+    const iban = fixDigitLetters(compact);
+    if (seen.has(iban)) continue;
+    seen.add(iban);
+
+    const isValid = isValidIBAN(iban);
+    const suggestion = isValid ? undefined : suggestIBANCorrection(iban);
+    const bank = iban.startsWith("DE")
+      ? lookupBankCode((suggestion ?? iban).slice(4, 12))
+      : undefined;
+
+    const start = match.index + match[0].indexOf(match[1]);
+    const confidence = isValid
+      ? (iban === compact.toUpperCase() ? CONFIDENCE_VALID : CONFIDENCE_FIXED_LETTERS)
+      : (suggestion ? CONFIDENCE_SUGGESTED : CONFIDENCE_INVALID);
+
+    ibans.push({
+      iban,
+      formatted: formatIBAN(iban),
+      raw: match[1],
+      start,
+      end: start + match[1].length,
+      confidence,
+      isValid,
+      bankName: bank?.name,
+      bic: findNearbyBIC(text, match.index + match[0].length) ?? bank?.bic,
+      suggestion,
+    });
+  }
+
+  return ibans;
+}
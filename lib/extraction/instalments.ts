@@ -0,0 +1,216 @@
+/**
+ * Ratenzahlung and Stundung detection.
+ *
+ * Recognises letters that offer or confirm an instalment plan or a
+ * deferral and reads the number of instalments, the amount per
+ * instalment, the due day and the first due date. From these a payment
+ * schedule is derived, so an agreed plan is shown as a timeline instead
+ * of a single overdue amount.
+ */
+
+import { AmountCheck, ExtractedDate, Instalment, InstalmentPlan, InstalmentPlanKind } from "@/types";
+import { addMonths } from "@/lib/calendar/dates";
+import { parseCount } from "./deadline";
+import { parseGermanNumber } from "./amounts";
+import { DAY_OF_MONTH_PATTERN } from "./patterns";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Ratenzahlung, Ratenplan, Teilzahlungen, Monatsraten */
+const INSTALMENT_PATTERN = /\b(?:Ratenzahlung\w*|Ratenplan|Teilzahlung(?:en)?|Monatsraten|Raten)\b/i;
+
+/** Stundung, gestundet, Zahlungsaufschub */
+const DEFERRAL_PATTERN = /\b(?:Stundung\w*|gestundet|Zahlungsaufschub)\b/i;
+
+/** The plan was refused: checked before the confirmation */
+const REJECTION_PATTERN = /\b(?:abgelehnt|ablehnen|nicht\s+(?:möglich|gewährt|gewähren|bewilligt|bewilligen|entsprochen|entsprechen|zustimmen))\b|\bkeine\s+(?:Ratenzahlung|Stundung)/i;
+
+/**
+ * The plan was granted ("bewilligen wir", "stimmen wir zu", "wie vereinbart",
+ * "wird bis zum ... gestundet", but not "kann gestundet werden")
+ */
+const CONFIRMATION_PATTERN = /\b(?:bewilligt|bewilligen|gewährt|gewähren|genehmigt|genehmigen|zugestimmt|stimmen\s+wir|einverstanden|vereinbart|eingeräumt|entsprochen|entsprechen|bestätigen)\b|(?<!\b(?:kann|können|könnte)\b[^.]{0,80})\bgestundet\b/i;
+
+/** "in 6 monatlichen Raten", "zwölf gleiche Teilzahlungen" */
+const COUNT_PATTERN = /\b(\d{1,2}|zwei|drei|vier|f[üu]nf|sechs|sieben|acht|neun|zehn|elf|zw[öo]lf|vierzehn)\s+(?:(?:gleiche|monatliche|aufeinanderfolgende)n?\s+)*(?:Monats)?(?:Raten|Teilzahlungen|Teilbeträgen?)\b/i;
+
+/** "Raten zu je 50,00 €", "monatliche Rate in Höhe von 120 EUR", "monatlich 75,00 Euro" */
+const AMOUNT_PATTERN = /\b(?:Raten?|Teilzahlung(?:en)?|Monatsraten?|monatlich(?:e[nr]?)?)\b[^.€\n]{0,40}?(\d{1,3}(?:\.\d{3})*(?:,\d{2})?)\s*(?:€|EUR|Euro)/i;
+
+/** Introduces the first due date: "erste Rate am", "beginnend mit dem", "erstmals zum" */
+const FIRST_DUE_PATTERN = /\b(?:erste\s+Rate|beginnend|erstmals|ab\s+dem|ab\s+(?=\d))/i;
+
+/** Introduces the end of a Stundung: "gestundet bis zum" */
+const UNTIL_PATTERN = /\bbis\b/i;
+
+/** Characters looked back for the start of the sentence */
+const MAX_LOOKBEHIND = 300;
+
+/** Characters read after the first mention */
+const MAX_WINDOW_LENGTH = 600;
+
+/** Distance between a marker and its date */
+const MAX_DATE_DISTANCE = 40;
+
+/** Longest schedule that is generated */
+const MAX_SCHEDULE_LENGTH = 72;
+
+/** A plan with number, amount or dates is certain; a bare mention may be a passing remark */
+const CONFIDENCE_WITH_TERMS = 0.9;
+const CONFIDENCE_MENTION = 0.6;
+
+/** German labels for plan kinds */
+export const INSTALMENT_PLAN_LABELS: Record<InstalmentPlanKind, string> = {
+  instalments: "Ratenzahlung",
+  deferral: "Stundung",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Start of the sentence that contains the given position.
+ */
+function findSentenceStart(text: string, position: number): number {
+  const from = Math.max(0, position - MAX_LOOKBEHIND);
+  const before = text.substring(from, position);
+  const boundary = /[.!?:]\s+(?=[A-ZÄÖÜ])|\n\s*\n/g;
+  let start = 0;
+  let match;
+  while ((match = boundary.exec(before)) !== null) {
+    start = match.index + match[0].length;
+  }
+  return from + start;
+}
+
+/**
+ * End of the sentence that contains the given position.
+ */
+function findSentenceEnd(text: string, position: number): number {
+  const after = text.substring(position, position + MAX_WINDOW_LENGTH);
+  const boundary = /[.!?](?=\s|$)|\n\s*\n/.exec(after);
+  return boundary ? position + boundary.index + (boundary[0].startsWith("\n") ? 0 : 1) : position + after.length;
+}
+
+/**
+ * First extracted date starting shortly after the given offset.
+ */
+function findDateAfter(dates: ExtractedDate[], offset: number): ExtractedDate | undefined {
+  return dates
+    .filter((d) => d.start >= offset && d.start - offset <= MAX_DATE_DISTANCE)
+    .sort((a, b) => a.start - b.start)[0];
+}
+
+/**
+ * Monthly instalments from the first due date. The last instalment covers
+ * the remainder when the total is known.
+ */
+function buildSchedule(count: number, firstDueDate: Date, amount?: number, total?: number): Instalment[] {
+  const schedule: Instalment[] = [];
+
+  for (let i = 0; i < count; i++) {
+    schedule.push({ number: i + 1, dueDate: addMonths(firstDueDate, i), amount });
+  }
+
+  if (amount !== undefined && total !== undefined && count > 1) {
+    const remainder = Math.round((total - amount * (count - 1)) * 100) / 100;
+    if (remainder > 0 && remainder < amount) {
+      schedule[count - 1].amount = remainder;
+    }
+  }
+
+  return schedule;
+}
+
+// ============================================================================
+// MAIN EXTRACTION
+// ============================================================================
+
+/**
+ * Detect an instalment plan or Stundung.
+ *
+ * @param text - Normalized letter text
+ * @param dates - Extracted dates (with offsets)
+ * @param amountCheck - Total to pay, used to derive the number of instalments
+ */
+export function extractInstalmentPlan(
+  text: string,
+  dates: ExtractedDate[],
+  amountCheck?: AmountCheck
+): InstalmentPlan | undefined {
+  const instalmentMatch = INSTALMENT_PATTERN.exec(text);
+  const deferralMatch = DEFERRAL_PATTERN.exec(text);
+  const first = [instalmentMatch, deferralMatch]
+    .filter((m): m is RegExpExecArray => m !== null)
+    .sort((a, b) => a.index - b.index)[0];
+  if (!first) return undefined;
+
+  const start = findSentenceStart(text, first.index);
+  const window = text.substring(start, first.index + MAX_WINDOW_LENGTH);
+  const opening = window.substring(0, first.index - start + MAX_LOOKBEHIND);
+
+  if (REJECTION_PATTERN.test(opening)) return undefined;
+
+  const countMatch = COUNT_PATTERN.exec(window);
+  const amountMatch = AMOUNT_PATTERN.exec(window);
+  let count = countMatch ? parseCount(countMatch[1]) : undefined;
+  const amount = amountMatch ? parseGermanNumber(amountMatch[1]) : undefined;
+  const total = amountCheck?.amountDue;
+
+  const kind = instalmentMatch && (count !== undefined || amount !== undefined || !deferralMatch)
+    ? "instalments"
+    : "deferral";
+
+  // Due day and first due date
+  const dueDayMatch = new RegExp(DAY_OF_MONTH_PATTERN.source, "i").exec(window);
+  const dueDay = dueDayMatch ? parseInt(dueDayMatch[1], 10) : undefined;
+
+  const firstDueMarker = FIRST_DUE_PATTERN.exec(window);
+  const firstDueDate = (firstDueMarker
+    ? findDateAfter(dates, start + firstDueMarker.index + firstDueMarker[0].length)
+    : undefined)
+    ?? (dueDayMatch ? findDateAfter(dates, start + dueDayMatch.index) : undefined);
+
+  let deferredUntil: Date | undefined;
+  if (kind === "deferral" && deferralMatch) {
+    // "bis" may come before the verb: "wird bis zum 30.06.2026 gestundet"
+    const sentenceStart = findSentenceStart(text, deferralMatch.index);
+    const untilMatch = UNTIL_PATTERN.exec(text.substring(sentenceStart, deferralMatch.index + MAX_LOOKBEHIND));
+    deferredUntil = untilMatch
+      ? findDateAfter(dates, sentenceStart + untilMatch.index + untilMatch[0].length)?.date
+      : undefined;
+  }
+
+  // Derive the number of instalments from the total
+  if (count === undefined && amount && total && total > amount) {
+    count = Math.ceil(total / amount - 0.005);
+  }
+
+  const schedule = kind === "instalments" && count && count <= MAX_SCHEDULE_LENGTH && firstDueDate
+    ? buildSchedule(count, firstDueDate.date, amount, total)
+    : [];
+
+  // Sentences are not bounded by line breaks; the span starts no earlier
+  // than the line of the mention, so that amount lines above stay out
+  const spanStart = Math.max(start, text.lastIndexOf("\n", first.index - 1) + 1);
+  const end = findSentenceEnd(text, first.index);
+  const hasTerms = count !== undefined || amount !== undefined || firstDueDate !== undefined || deferredUntil !== undefined;
+
+  return {
+    kind,
+    status: CONFIRMATION_PATTERN.test(opening) ? "confirmed" : "offered",
+    count,
+    amount,
+    dueDay,
+    firstDueDate: firstDueDate?.date,
+    deferredUntil,
+    schedule,
+    start: spanStart,
+    end,
+    raw: text.substring(spanStart, end),
+    confidence: hasTerms ? CONFIDENCE_WITH_TERMS : CONFIDENCE_MENTION,
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Plausibility check for Säumniszuschläge and Verzugszinsen.
+ *
+ * Recomputes the highest charge the law allows from the extracted
+ * principal and dates and compares it with the stated figure:
+ * - Säumniszuschlag (§240 AO, also §24 SGB IV): 1 % per started month of
+ *   the overdue amount, rounded down to the next 50 €. Public senders only.
+ * - Verzugszinsen (§288 BGB): Basiszinssatz plus 5 percentage points
+ *   (plus 9 if no consumer is involved), per day. Private senders only.
+ */
+
+import { AmountRole, ExtractedAmount, ExtractedData, ExtractedDate, LateChargeCheck, SourceSpan } from "@/types";
+import { addMonths, daysBetween, formatDate } from "@/lib/calendar/dates";
+import { findLetterDate } from "./dates";
+import { formatEuro } from "./amounts";
+import { PUBLIC_SENDER_TYPES } from "./authorities";
+import { getBaseRate, isBaseRateKnown } from "./baseRates";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Säumniszuschlag per started month */
+const SURCHARGE_RATE = 0.01;
+
+/** The overdue amount is rounded down to this step */
+const SURCHARGE_ROUNDING = 50;
+
+/** Percentage points above the Basiszinssatz (§288 Abs. 1, 2 BGB) */
+const CONSUMER_INTEREST_MARGIN = 5;
+const BUSINESS_INTEREST_MARGIN = 9;
+
+/** Rounding tolerance when comparing with the stated figure */
+const TOLERANCE = 0.01;
+
+/** Interest is computed on 365 days per year */
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Label before a period that makes it the period of default ("Zinsen vom",
+ * "Säumniszuschläge für die Zeit vom", "Verzug seit"), as opposed to a tax
+ * or billing period
+ */
+const DEFAULT_PERIOD_CONTEXT = /(?:Verzug|Zins|Säumnis|Saumnis|überfällig|rückständig)\w*\b[^\n]{0,40}?$/i;
+
+/** Characters before a period inspected for DEFAULT_PERIOD_CONTEXT */
+const CONTEXT_WINDOW = 60;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Sum of the distinct amounts of one role ("12,00 €" mentioned twice counts once).
+ */
+function sumRole(amounts: ExtractedAmount[], role: AmountRole): number | undefined {
+  const values = [...new Set(amounts.filter((a) => a.role === role).map((a) => a.value))];
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0)) : undefined;
+}
+
+/**
+ * Span of the first mention of a figure, where the check is shown in the letter.
+ */
+function toFigureSpan({ start, end, raw, confidence }: ExtractedAmount): SourceSpan {
+  return { start, end, raw, confidence };
+}
+
+/**
+ * Months started between the due date and the end date.
+ */
+function countStartedMonths(from: Date, until: Date): number {
+  let months = 0;
+  while (addMonths(from, months) < until) {
+    months++;
+  }
+  return months;
+}
+
+/**
+ * Interest in euros, split at every change of the Basiszinssatz.
+ */
+function computeInterest(principal: number, from: Date, until: Date, margin: number): number {
+  let interest = 0;
+  for (let day = 1; day <= daysBetween(from, until); day++) {
+    const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + day);
+    interest += principal * (getBaseRate(date) + margin) / 100 / DAYS_PER_YEAR;
+  }
+  return round(interest);
+}
+
+/**
+ * Stated period of default ("Zinsen vom 15.01.2026 bis 10.03.2026"). Other
+ * periods, e.g. the tax year or billing period, are left out.
+ */
+function findStatedDefaultPeriod(text: string, dates: ExtractedDate[]): { from: Date; until?: Date } | undefined {
+  const index = dates.findIndex((d) =>
+    d.role === "period_start" &&
+    DEFAULT_PERIOD_CONTEXT.test(text.substring(Math.max(0, d.start - CONTEXT_WINDOW), d.start))
+  );
+  if (index === -1) return undefined;
+
+  const end = dates[index + 1]?.role === "period_end" ? dates[index + 1].date : undefined;
+  return { from: dates[index].date, until: end };
+}
+
+/**
+ * Start and end of the default: a stated period of default, otherwise the
+ * original due date (before the letter date) up to the letter date.
+ */
+function findDefaultPeriod(
+  text: string,
+  data: Pick<ExtractedData, "sender" | "dates" | "amounts">,
+  today: Date
+): { from: Date; until: Date } | undefined {
+  const stated = findStatedDefaultPeriod(text, data.dates);
+  const until = stated?.until ?? findLetterDate(data.dates) ?? today;
+
+  const pastDueDates = data.dates
+    .filter((d) => d.role === "due_date" && d.date < until)
+    .map((d) => d.date)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const from = stated?.from ?? pastDueDates[0];
+
+  return from && from < until ? { from, until } : undefined;
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+function checkLateSurcharge(principal: number, stated: number, from: Date, until: Date, figure: SourceSpan): LateChargeCheck {
+  const months = countStartedMonths(from, until);
+  const base = Math.floor(principal / SURCHARGE_ROUNDING) * SURCHARGE_ROUNDING;
+  const expected = round(base * SURCHARGE_RATE * months);
+
+  return {
+    kind: "late_surcharge",
+    principal,
+    from,
+    until,
+    stated,
+    expected,
+    isPlausible: stated <= expected + TOLERANCE,
+    ...figure,
+    note: `1 % von ${formatEuro(base)} (auf volle 50 € abgerundet) × ${months} angefangene${months === 1 ? "r" : ""} Monat${months === 1 ? "" : "e"}`,
+  };
+}
+
+function checkDefaultInterest(principal: number, stated: number, from: Date, until: Date, figure: SourceSpan): LateChargeCheck {
+  const days = daysBetween(from, until);
+  const expected = computeInterest(principal, from, until, CONSUMER_INTEREST_MARGIN);
+  const businessMaximum = computeInterest(principal, from, until, BUSINESS_INTEREST_MARGIN);
+
+  let note = `Basiszinssatz + ${CONSUMER_INTEREST_MARGIN} Prozentpunkte auf ${formatEuro(principal)} für ${days} Tage`;
+  if (stated > expected + TOLERANCE && stated <= businessMaximum + TOLERANCE) {
+    note += `. Der genannte Betrag entspricht eher + ${BUSINESS_INTEREST_MARGIN} Prozentpunkten – das ist nur zulässig, wenn kein Verbraucher beteiligt ist`;
+  }
+  if (!isBaseRateKnown(until)) {
+    note += ". Für das Ende des Zeitraums ist der Basiszinssatz nicht hinterlegt, es wurde der zuletzt bekannte verwendet";
+  }
+
+  return {
+    kind: "default_interest",
+    principal,
+    from,
+    until,
+    stated,
+    expected,
+    isPlausible: stated <= expected + TOLERANCE,
+    note,
+    ...figure,
+  };
+}
+
+// ============================================================================
+// MAIN CHECK
+// ============================================================================
+
+/**
+ * Recompute Säumniszuschlag and Verzugszinsen and compare them with the
+ * stated figures. Returns an empty list when the letter states neither or
+ * principal or due date are missing.
+ *
+ * @param text - Normalized letter text
+ * @param data - Extracted data (amounts, dates, sender)
+ * @param today - Used as end date when no letter date is found
+ */
+export function checkLateCharges(
+  text: string,
+  data: Pick<ExtractedData, "sender" | "dates" | "amounts">,
+  today: Date = new Date()
+): LateChargeCheck[] {
+  const principal = data.amounts.find((a) => a.role === "principal")?.value;
+  const period = findDefaultPeriod(text, data, today);
+  if (principal === undefined || !period) return [];
+
+  const checks: LateChargeCheck[] = [];
+  const isPublicSender = data.sender !== undefined && PUBLIC_SENDER_TYPES.includes(data.sender.type);
+
+  // §240 AO and §24 SGB IV bind authorities only; a private creditor's
+  // "Zuschlag" is a contractual fee, not a Säumniszuschlag
+  const surcharge = sumRole(data.amounts, "late_surcharge");
+  const surchargeFigure = data.amounts.find((a) => a.role === "late_surcharge");
+  if (surcharge !== undefined && surchargeFigure && isPublicSender) {
+    checks.push(checkLateSurcharge(principal, surcharge, period.from, period.until, toFigureSpan(surchargeFigure)));
+  }
+
+  // Authorities charge interest under public law (e.g. §§233 ff. AO), not §288 BGB
+  const interest = sumRole(data.amounts, "interest");
+  const interestFigure = data.amounts.find((a) => a.role === "interest");
+  if (interest !== undefined && interestFigure && !isPublicSender) {
+    checks.push(checkDefaultInterest(principal, interest, period.from, period.until, toFigureSpan(interestFigure)));
+  }
+
+  return checks;
+}
+
+/**
+ * Describe the period of a check ("15.01.2026 – 10.03.2026").
+ */
+export function formatChargePeriod(check: LateChargeCheck): string {
+  return `${formatDate(check.from)} – ${formatDate(check.until)}`;
+}
@@ -0,0 +1,178 @@
+/**
+ * Rechtsbehelfsbelehrung parser.
+ *
+ * Reads the remedy (Widerspruch, Einspruch, Klage), its deadline, the
+ * authority where it has to be filed and the accepted forms from the
+ * instructions at the end of a Bescheid. Missing the appeal deadline makes
+ * a Bescheid final, so this is often more important than the payment date.
+ */
+
+import { Bundesland, ExtractedData, FilingForm, LegalRemedy, LegalRemedyType } from "@/types";
+import { applyWorkingDayShift, resolveRelativePeriod } from "./deadline";
+import { findLetterDate } from "./dates";
+import { RELATIVE_DEADLINE_PATTERN, PERIOD_LENGTH_PATTERN } from "./patterns";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Heading of the section */
+const SECTION_HEADING = /^[ \t]*(?:Rechtsbehelfsbelehrung|Rechtsmittelbelehrung|Rechtsbehelfe?|Belehrung über (?:den Rechtsbehelf|Rechtsbehelfe))\b:?/im;
+
+/**
+ * Opening sentence when there is no heading: "Gegen diesen Bescheid kann
+ * ... Widerspruch erhoben werden", "Gegen diesen Bescheid ist der Einspruch gegeben"
+ */
+const SECTION_SENTENCE = /(?:Gegen\s+(?:diesen|den)\s+\S+|Hiergegen)[^.]{0,120}?\b(?:kann|können|ist|sind)\b[^.]{0,120}?\b(?:Widerspruch|Einspruch|Klage|Beschwerde)\b/i;
+
+/** End of the section */
+const SECTION_END = /^[ \t]*(?:Mit\s+freundlichen\s+Gr[üu](?:ß|ss)en|Hochachtungsvoll|Hinweis(?:e)?:?$|Im\s+Auftrag)/im;
+
+/** Longest section that is read */
+const MAX_SECTION_LENGTH = 2000;
+
+/** A section found by its heading is certain; one found by its opening sentence less so */
+const CONFIDENCE_HEADING = 0.9;
+const CONFIDENCE_SENTENCE = 0.7;
+
+/** Remedy keywords, in the order they are preferred when several appear */
+const REMEDY_PATTERNS: { type: LegalRemedyType; pattern: RegExp }[] = [
+  { type: "objection", pattern: /\bWiderspruch\b/i },
+  { type: "opposition", pattern: /\bEinspruch\b/i },
+  { type: "lawsuit", pattern: /\bKlage\b/i },
+  { type: "complaint", pattern: /\b(?:sofortige\s+)?Beschwerde\b/i },
+];
+
+/** Where to file: "bei der Stadt Musterstadt, Marktplatz 1, 12345 Musterstadt, schriftlich ... einzulegen" */
+const AUTHORITY_PATTERN = /\b(?:bei\s+(?:dem|der|den)|beim)\s+([^.]{3,200}?)\s*,?\s*(?:schriftlich|elektronisch|in\s+elektronischer|zur\s+Niederschrift|einzulegen|zu\s+erheben|einzureichen|zu\s+erkl[äa]ren|anzubringen|erhoben|eingelegt)/i;
+
+/** Authority that refers back to the sender ("bei dem oben genannten Finanzamt") */
+const BACK_REFERENCE = /oben\s+genannt|vorgenannt|vorbezeichnet|bezeichnet|erlassen|diese[mnr]?\b|unten\s+genannt/i;
+
+const FORM_PATTERNS: { form: FilingForm; pattern: RegExp }[] = [
+  { form: "written", pattern: /schriftlich/i },
+  { form: "electronic", pattern: /elektronisch|De-Mail|ELSTER|qualifizierte[nr]?\s+elektronische[nr]?\s+Signatur/i },
+  { form: "record", pattern: /zur\s+Niederschrift|Protokoll\s+der\s+Gesch[äa]ftsstelle/i },
+];
+
+/** German labels for remedy types */
+export const LEGAL_REMEDY_LABELS: Record<LegalRemedyType, string> = {
+  objection: "Widerspruch",
+  opposition: "Einspruch",
+  lawsuit: "Klage",
+  complaint: "Beschwerde",
+};
+
+/** German labels for filing forms */
+export const FILING_FORM_LABELS: Record<FilingForm, string> = {
+  written: "schriftlich",
+  electronic: "elektronisch",
+  record: "zur Niederschrift",
+};
+
+// ============================================================================
+// SECTION
+// ============================================================================
+
+/**
+ * Locate the Rechtsbehelfsbelehrung: from its heading (or opening sentence)
+ * to the Grußformel or a following notes section.
+ */
+function findSection(text: string): { start: number; end: number; confidence: number } | undefined {
+  const headingMatch = SECTION_HEADING.exec(text);
+  const heading = headingMatch ?? SECTION_SENTENCE.exec(text);
+  if (!heading) return undefined;
+
+  const start = heading.index;
+  const bodyStart = start + heading[0].length;
+  const rest = text.substring(bodyStart, start + MAX_SECTION_LENGTH);
+  const endMatch = SECTION_END.exec(rest);
+
+  return {
+    start,
+    end: endMatch ? bodyStart + endMatch.index : bodyStart + rest.length,
+    confidence: headingMatch ? CONFIDENCE_HEADING : CONFIDENCE_SENTENCE,
+  };
+}
+
+/**
+ * The text with the Rechtsbehelfsbelehrung blanked out, offsets unchanged.
+ * Its appeal period ("innerhalb eines Monats nach Bekanntgabe") is not a
+ * payment deadline.
+ */
+export function blankLegalRemedySection(text: string): string {
+  const bounds = findSection(text);
+  if (!bounds) return text;
+
+  const blank = text.substring(bounds.start, bounds.end).replace(/[^\n]/g, " ");
+  return text.substring(0, bounds.start) + blank + text.substring(bounds.end);
+}
+
+function findRemedyType(section: string): LegalRemedyType | undefined {
+  let best: { type: LegalRemedyType; index: number } | undefined;
+
+  for (const { type, pattern } of REMEDY_PATTERNS) {
+    const match = pattern.exec(section);
+    if (match && (!best || match.index < best.index)) {
+      best = { type, index: match.index };
+    }
+  }
+
+  return best?.type;
+}
+
+function findAuthority(section: string, senderName?: string): string | undefined {
+  const match = AUTHORITY_PATTERN.exec(section);
+  if (!match) return undefined;
+
+  const authority = match[1].replace(/\s+/g, " ").trim();
+  if (BACK_REFERENCE.test(authority) && senderName) {
+    return senderName;
+  }
+  return authority;
+}
+
+// ============================================================================
+// MAIN PARSING
+// ============================================================================
+
+/**
+ * Parse the Rechtsbehelfsbelehrung of a letter.
+ *
+ * @param text - Normalized letter text
+ * @param data - Extracted data (letter date and sender are used)
+ * @param bundesland - User's state for holiday shifting of the deadline
+ * @param today - Analysis date, used when no letter date is found
+ */
+export function parseLegalRemedy(
+  text: string,
+  data: ExtractedData,
+  bundesland?: Bundesland,
+  today: Date = new Date()
+): LegalRemedy | undefined {
+  const bounds = findSection(text);
+  if (!bounds) return undefined;
+
+  const section = text.substring(bounds.start, bounds.end);
+  const type = findRemedyType(section);
+  if (!type) return undefined;
+
+  const periodMatch = RELATIVE_DEADLINE_PATTERN.exec(section) ?? PERIOD_LENGTH_PATTERN.exec(section);
+  const resolved = periodMatch
+    ? resolveRelativePeriod(periodMatch, findLetterDate(data.dates), bundesland, today)
+    : undefined;
+  const deadline = resolved && applyWorkingDayShift(resolved, bundesland);
+
+  return {
+    type,
+    period: periodMatch?.[0].replace(/\s+/g, " "),
+    deadline: deadline?.date,
+    deadlineNote: deadline?.note,
+    authority: findAuthority(section, data.sender?.name),
+    forms: FORM_PATTERNS.filter(({ pattern }) => pattern.test(section)).map(({ form }) => form),
+    start: bounds.start,
+    end: bounds.end,
+    raw: section,
+    confidence: bounds.confidence,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Verjährung hint for old claims.
+ *
+ * The regular limitation period is three years (§195 BGB) and starts at
+ * the end of the year in which the claim arose (§199 Abs. 1 BGB). The
+ * year is read from the invoice date, the period of service or phrases
+ * like "Forderung aus dem Jahr 2021". This is only a hint: a Mahnbescheid,
+ * an acknowledgement or negotiations suspend the period, and titled
+ * claims expire after 30 years.
+ */
+
+import { ExtractedData, LimitationHint, SourceSpan } from "@/types";
+import { findLetterDate } from "./dates";
+import { PUBLIC_SENDER_TYPES } from "./authorities";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Regular limitation period in years (§195 BGB) */
+const LIMITATION_YEARS = 3;
+
+/** "Forderung aus dem Jahr 2021", "Rechnung für 2020", "Leistungen aus 2021" */
+const CLAIM_YEAR_PATTERN = /\b(?:Forderung|Rechnung|Leistung|Lieferung|Abrechnung|Jahresabrechnung)\w*\b[^.\n]{0,40}?\b(?:aus\s+(?:dem\s+(?:Jahre?\s+)?)?|f[üu]r\s+(?:das\s+(?:Jahr\s+)?)?|vom\s+Jahr(?:e)?\s+)((?:19|20)\d{2})\b/i;
+
+/**
+ * Text before a date that makes it the date the claim arose: invoice,
+ * service or billing dates. A contract or order date only says when the
+ * relationship began, not when the invoiced claim arose.
+ */
+const CLAIM_DATE_CONTEXT = /(?:Rechnung|Leistung|Lieferung|Abrechnung|Leistungszeitraum|Abrechnungszeitraum)\w*\b[^\n]{0,30}?(?:vom|v\.|am|:)?\s*$/i;
+
+/** Characters before a date inspected for CLAIM_DATE_CONTEXT */
+const CONTEXT_WINDOW = 50;
+
+/** Confidence of a year named with the claim ("Forderung aus dem Jahr 2021") */
+const CONFIDENCE_STATED_YEAR = 0.8;
+
+/** Confidence of a year taken from a labelled invoice or service date */
+const CONFIDENCE_CLAIM_DATE = 0.7;
+
+/** Titled claims expire after 30 years (§197 BGB): no hint */
+const TITLE_PATTERN = /\b(?:Vollstreckungsbescheid\w*|Urteil\w*|tituliert\w*|Vollstreckungstitel)\b/i;
+
+/** Events that suspend or restart the period (§§203 ff., 212 BGB) */
+const SUSPENSION_PATTERN = /\b(?:Mahnbescheid\w*|Anerkenntnis|anerkannt|Ratenzahlung\w*|Teilzahlung\w*|Vergleich)\b/i;
+
+// ============================================================================
+// MAIN CHECK
+// ============================================================================
+
+/** Year the claim arose, with the text it was read from */
+interface ClaimYear extends SourceSpan {
+  year: number;
+  source: string;
+}
+
+/**
+ * Find the year the claim arose: the latest claim date or stated year.
+ * An older date in the same letter is usually history (previous invoices,
+ * earlier periods); the latest one decides whether the claim may be old.
+ */
+function findClaimYear(text: string, data: Pick<ExtractedData, "sender" | "dates" | "amounts">): ClaimYear | undefined {
+  const candidates: ClaimYear[] = [];
+
+  const yearMatch = CLAIM_YEAR_PATTERN.exec(text);
+  if (yearMatch) {
+    candidates.push({
+      year: parseInt(yearMatch[1], 10),
+      source: yearMatch[0].replace(/\s+/g, " "),
+      start: yearMatch.index,
+      end: yearMatch.index + yearMatch[0].length,
+      raw: yearMatch[0],
+      confidence: CONFIDENCE_STATED_YEAR,
+    });
+  }
+
+  data.dates.forEach((date, i) => {
+    if (["letter_date", "due_date", "period_start"].includes(date.role)) return;
+    // A period of service counts from its end; its label precedes the start
+    const labelled = date.role === "period_end" && data.dates[i - 1]?.role === "period_start"
+      ? data.dates[i - 1]
+      : date;
+    const before = text.substring(Math.max(0, labelled.start - CONTEXT_WINDOW), labelled.start);
+    const context = CLAIM_DATE_CONTEXT.exec(before);
+    if (context) {
+      const start = Math.max(0, labelled.start - CONTEXT_WINDOW) + context.index;
+      const raw = text.substring(start, date.end);
+      candidates.push({
+        year: date.date.getFullYear(),
+        source: raw.replace(/\s+/g, " ").trim(),
+        start,
+        end: date.end,
+        raw,
+        confidence: CONFIDENCE_CLAIM_DATE,
+      });
+    }
+  });
+
+  return candidates.sort((a, b) => b.year - a.year)[0];
+}
+
+/**
+ * Check whether the regular limitation period of a private claim may have
+ * expired. Public-law claims (taxes, contributions) follow other rules and
+ * are skipped.
+ *
+ * @param text - Normalized letter text
+ * @param data - Extracted data (dates, sender)
+ * @param today - Reference date when no letter date is found
+ */
+export function checkLimitation(
+  text: string,
+  data: Pick<ExtractedData, "sender" | "dates" | "amounts">,
+  today: Date = new Date()
+): LimitationHint | undefined {
+  if (data.sender && PUBLIC_SENDER_TYPES.includes(data.sender.type)) return undefined;
+  if (TITLE_PATTERN.test(text)) return undefined;
+
+  const claim = findClaimYear(text, data);
+  if (!claim) return undefined;
+
+  const reference = findLetterDate(data.dates) ?? today;
+  if (claim.year > reference.getFullYear()) return undefined;
+
+  const expiresAt = new Date(claim.year + LIMITATION_YEARS, 11, 31);
+  const suspension = SUSPENSION_PATTERN.exec(text);
+
+  return {
+    claimYear: claim.year,
+    source: claim.source,
+    start: claim.start,
+    end: claim.end,
+    raw: claim.raw,
+    confidence: claim.confidence,
+    expiresAt,
+    mayBeExpired: reference > expiresAt,
+    note: suspension
+      ? `Das Schreiben erwähnt „${suspension[0]}“ – dadurch kann sich die Verjährung verschoben haben.`
+      : undefined,
+  };
+}
@@ -2,20 +2,125 @@
  * Regex patterns for extracting data from German official letters.
  */
 
-/** German date formats: DD.MM.YYYY or DD.MM.YY */
-export const DATE_PATTERN = /\b(\d{1,2})\.(\d{1,2})\.(\d{2,4})\b/g;
+/** German date formats: DD.MM.YYYY or DD.MM.YY (also "31.01. 2026" as OCR often splits it) */
+export const DATE_PATTERN = /\b(\d{1,2})\.(\d{1,2})\.(\d{2,4}|\s\d{4})\b/g;
+
+/** ISO 8601 date: 2026-01-31 */
+export const ISO_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+
+/**
+ * Word that may be a (possibly abbreviated or OCR-garbled) month name.
+ * The candidate is checked against the month list during parsing.
+ */
+const MONTH_WORD = "[A-Za-zÄÖÜäöü0][A-Za-zÄÖÜäöü01]{2,9}(?![A-Za-zÄÖÜäöüß])";
+
+/** Written-out date: "31. Januar 2026", "31. Jan. 2026", "3. März" */
+export const WRITTEN_DATE_PATTERN = new RegExp(
+  `\\b(\\d{1,2})(?:\\.\\s?|\\s)(${MONTH_WORD})(?:\\.?\\s?(\\d{4})\\b)?`,
+  "g"
+);
+
+/** Part of a month: "Ende Februar", "Mitte März 2026" */
+export const MONTH_PART_PATTERN = new RegExp(
+  `\\b(Anfang|Mitte|Ende)\\s+(${MONTH_WORD})(?:\\.?\\s?(\\d{4})\\b)?`,
+  "gi"
+);
+
+/** Day of the current or following month: "zum 15. des Monats", "am 1. des Folgemonats", "zum 5. eines jeden Monats" */
+export const DAY_OF_MONTH_PATTERN = /\b(\d{1,2})\.\s*(?:(?:des|eines|jeden)\s+(?:jeden\s+)?(?:(laufenden|folgenden|n[äa]chsten)\s+)?Monats|(?:des\s+)?(Folgemonats))\b/gi;
+
+/** Date without year: "Ihr Schreiben vom 3.1." (not a section number like "§ 3.1.") */
+export const SHORT_DATE_PATTERN = /(?<![\d.§]\s?)\b(\d{1,2})\.(\d{1,2})\.(?!\s?\d)/g;
 
 /** German currency format: 1.234,56 € or 1234,56 EUR */
 export const AMOUNT_PATTERN = /(\d{1,3}(?:\.\d{3})*(?:,\d{2})?)\s*(?:€|EUR|Euro)/gi;
 
-/** IBAN format */
-export const IBAN_PATTERN = /\b([A-Z]{2}\d{2}(?:\s?\d{4}){4}\s?\d{2})\b/gi;
+/**
+ * IBAN format (German length). Digit positions also accept letters OCR
+ * confuses with digits (O/0, I/l/1, B/8, S/5); they are repaired during extraction.
+ */
+export const IBAN_PATTERN = /\b([A-Z]{2}[\dOoIlBS]{2}(?:\s?[\dOoIlBS]{4}){4}\s?[\dOoIlBS]{2})\b/g;
+
+/** Labelled BIC: "BIC: COLSDE33XXX", "SWIFT-Code COLSDE33" */
+export const BIC_PATTERN = /\b(?:BIC|SWIFT(?:-Code)?)\s*:?\s*([A-Z]{6}[A-Z0-9]{2}(?:[A-Z0-9]{3})?)\b/g;
+
+/**
+ * Value after a reference label: groups containing a digit, separated by
+ * single spaces, optionally with short letter groups in between
+ * ("12 C 345/25", "5.1234.567890.1", "S 12 AS 1234/25").
+ */
+const REFERENCE_VALUE = (() => {
+  const group = "[A-Z0-9.\\-\\/]*\\d[A-Z0-9.\\-\\/]*";
+  const letters = "[A-Z][A-Za-z]{0,3}";
+  return `((?:${letters} )?${group}(?: (?:${letters} )?${group})*)`;
+})();
+
+/** Optional separator between a label and its value */
+const LABEL_SEPARATOR = "[:.]?\\s*(?:Nr\\.?\\s*)?";
+
+const labelled = (label: string, value: string = REFERENCE_VALUE) =>
+  new RegExp(`(?:${label})${LABEL_SEPARATOR}${value}`, "g");
 
-/** Reference numbers (Aktenzeichen, Az.) */
-export const REFERENCE_PATTERN = /(?:Az\.?|Aktenzeichen|Geschäftszeichen|Vorgangsnummer|Rechnungs-?Nr\.?)[:.]?\s*([A-Z0-9\-\/]+)/gi;
+/** Generic file number (Aktenzeichen, Geschäftszeichen) */
+export const REFERENCE_PATTERN = labelled(
+  "\\bAz\\.?|Aktenzeichen|Geschäftszeichen|Gesch\\.-?Z\\.|Vorgangsnummer|Unser Zeichen|Ihr Zeichen"
+);
+
+/** Steuerliche Identifikationsnummer: 11 digits, often grouped "12 345 678 901" */
+export const TAX_ID_PATTERN = labelled(
+  "Steuer-?ID|Steueridentifikationsnummer|(?:[Ss]teuerliche )?Identifikationsnummer|IdNr\\.?",
+  "\\b([1-9]\\d ?\\d{3} ?\\d{3} ?\\d{3})\\b"
+);
+
+/** Steuernummer in Länder format: "123/456/78901", "12/345/67890" */
+export const TAX_NUMBER_PATTERN = /\b(\d{2,3}\/\d{3,4}\/\d{4,5})\b/g;
+
+/** Steuernummer in the 13-digit federal format (labelled only) */
+export const FEDERAL_TAX_NUMBER_PATTERN = labelled(
+  "Steuernummer|Steuer-Nr\\.?|St\\.-?Nr\\.?|StNr\\.?",
+  "\\b(\\d{13})\\b"
+);
+
+/** Nummer der Bedarfsgemeinschaft (Jobcenter): "12345BG0012345" */
+export const BG_NUMBER_PATTERN = /\b(\d{5} ?BG ?\d{7})\b/g;
+
+/** Geschäftsnummer of the Mahngericht: "M 1234567-0-3", "25-1234567-0-3" */
+export const DUNNING_COURT_FILE_PATTERN = /\b((?:[A-Z] ?|\d{2}-)\d{7}-\d-\d)\b/g;
+
+/** Court file number: "12 C 345/25", "S 12 AS 1234/25", "3 K 12/2025" */
+export const COURT_FILE_PATTERN = /\b((?:[A-Z] )?\d{1,4} ?[A-Z][A-Za-z]{0,3} ?\d{1,6}\/\d{2}(?:\d{2})?)(?![\d\/])/g;
+
+/** Kassenzeichen of a public cash office */
+export const CASH_REFERENCE_PATTERN = labelled("Kassenzeichen|Kassen-Zeichen|\\bKZ\\.?");
+
+/** Beitragsnummer of the ARD ZDF Deutschlandradio Beitragsservice: 9 digits */
+export const CONTRIBUTION_NUMBER_PATTERN = labelled(
+  "Beitragsnummer|Beitrags-Nr\\.?",
+  "\\b(\\d{3} ?\\d{3} ?\\d{3})\\b"
+);
+
+/** Customer number */
+export const CUSTOMER_NUMBER_PATTERN = labelled(
+  "Kundennummer|Kunden-Nr\\.?|Kd\\.?-?Nr\\.?|Mitgliedsnummer|Versichertennummer|Vertragsnummer"
+);
 
 /** Deadline expressions: "innerhalb von X Tagen" or "Frist von X Tagen" */
 export const DEADLINE_DAYS_PATTERN = /(?:innerhalb\s+(?:von\s+)?|frist\s+(?:von\s+)?|binnen\s+)(\d+)\s*(?:tage[n]?|werktage[n]?)/gi;
 
-/** Invoice number */
-export const INVOICE_PATTERN = /(?:Rechnung|Rechnungs-?Nr\.?)[:.]?\s*(\d+)/gi;
+/** Line prefix of the letter date in the header: "Musterstadt, " or "Datum: " */
+export const LETTER_DATE_PREFIX_PATTERN = /^[ \t]*(?:[A-ZÄÖÜ][A-Za-zäöüß.\- ]*,\s*(?:den\s+)?|Datum:?\s*)$/;
+
+/**
+ * Relative periods: "innerhalb eines Monats nach Bekanntgabe", "binnen zwei Wochen",
+ * "innerhalb der nächsten 14 Tage", "Frist von 7 Tagen"
+ */
+export const RELATIVE_DEADLINE_PATTERN = /(?:innerhalb|binnen|frist\s+von)\s+(?:von\s+)?(?:der\s+n[äa]chsten\s+)?(\d+|eine[nsm]?|zwei|drei|vier|f[üu]nf|sechs|sieben|acht|neun|zehn|elf|zw[öo]lf|vierzehn)\s+(werktag(?:e|en)?|tag(?:e|en)?|woche(?:n)?|monat(?:s|e|en)?)(?:\s+nach\s+(bekanntgabe|zugang|erhalt|zustellung))?/i;
+
+/** Stated period length: "Die Frist für die Einlegung des Einspruchs beträgt einen Monat" */
+export const PERIOD_LENGTH_PATTERN = /\bFrist\b[^.]{0,80}?\bbetr[äa]gt\s+(\d+|eine[nsm]?|zwei|drei|vier|f[üu]nf|sechs|sieben|acht|neun|zehn|elf|zw[öo]lf|vierzehn)\s+(werktag(?:e|en)?|tag(?:e|en)?|woche(?:n)?|monat(?:s|e|en)?)/i;
+
+/** End of month: "bis zum Monatsende", "bis Ende des Monats" */
+export const MONTH_END_PATTERN = /bis\s+(?:zum\s+)?(?:monatsende|ende\s+(?:des|dieses)\s+monats)/i;
+
+/** Invoice number: "Rechnungsnummer 2026-0042", "Rechnung Nr. 12345" */
+export const INVOICE_PATTERN = labelled("Rechnungsnummer|Rechnungs-Nr\\.?|Rechnung(?= Nr)");
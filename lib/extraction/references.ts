@@ -0,0 +1,155 @@
+/**
+ * Reference number extraction.
+ *
+ * Each recognizer finds one kind of reference (Steuer-ID, court file number,
+ * Kassenzeichen, ...). Recognizers run most specific first; a later match
+ * that overlaps an earlier one is dropped, so "Az.: 12 C 345/25" is a court
+ * file number and not a generic Aktenzeichen.
+ */
+
+import { ExtractedReference, ReferenceKind } from "@/types";
+import {
+  TAX_ID_PATTERN,
+  TAX_NUMBER_PATTERN,
+  FEDERAL_TAX_NUMBER_PATTERN,
+  BG_NUMBER_PATTERN,
+  DUNNING_COURT_FILE_PATTERN,
+  COURT_FILE_PATTERN,
+  CASH_REFERENCE_PATTERN,
+  CONTRIBUTION_NUMBER_PATTERN,
+  CUSTOMER_NUMBER_PATTERN,
+  INVOICE_PATTERN,
+  REFERENCE_PATTERN,
+} from "./patterns";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ReferenceRecognizer {
+  kind: ReferenceKind;
+  /** Group 1 holds the value */
+  pattern: RegExp;
+  /** Check digit or structure test, for kinds that have one */
+  validate?: (value: string) => boolean;
+  /** Labelled patterns are more reliable than bare number formats */
+  confidence: number;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a Steuer-ID: 11 digits, no leading zero, ISO 7064 MOD 11,10 check
+ * digit, and in the first ten digits exactly one digit occurs twice or
+ * three times.
+ */
+export function isValidTaxId(value: string): boolean {
+  const digits = value.replace(/\s/g, "");
+  if (!/^[1-9]\d{10}$/.test(digits)) return false;
+
+  const counts = new Map<string, number>();
+  for (const digit of digits.slice(0, 10)) {
+    counts.set(digit, (counts.get(digit) ?? 0) + 1);
+  }
+  const repeated = [...counts.values()].filter((count) => count > 1);
+  if (repeated.length !== 1 || repeated[0] > 3) return false;
+
+  let product = 10;
+  for (const digit of digits.slice(0, 10)) {
+    let sum = (Number(digit) + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (sum * 2) % 11;
+  }
+  const check = (11 - product) % 10;
+
+  return check === Number(digits[10]);
+}
+
+/**
+ * Check the structure of a Steuernummer.
+ * The check digit itself is computed differently in each Land and is not
+ * verified; the Länder format must have 10 or 11 digits, the 13-digit
+ * federal format a 0 in fifth position.
+ */
+export function isValidTaxNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length === 13) return digits[4] === "0";
+  return digits.length === 10 || digits.length === 11;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Recognizers, most specific first */
+const REFERENCE_RECOGNIZERS: ReferenceRecognizer[] = [
+  { kind: "tax_id", pattern: TAX_ID_PATTERN, validate: isValidTaxId, confidence: 0.95 },
+  { kind: "tax_number", pattern: FEDERAL_TAX_NUMBER_PATTERN, validate: isValidTaxNumber, confidence: 0.9 },
+  { kind: "tax_number", pattern: TAX_NUMBER_PATTERN, validate: isValidTaxNumber, confidence: 0.7 },
+  { kind: "bg_number", pattern: BG_NUMBER_PATTERN, confidence: 0.85 },
+  { kind: "dunning_court_file", pattern: DUNNING_COURT_FILE_PATTERN, confidence: 0.8 },
+  { kind: "court_file", pattern: COURT_FILE_PATTERN, confidence: 0.75 },
+  { kind: "contribution_number", pattern: CONTRIBUTION_NUMBER_PATTERN, confidence: 0.9 },
+  { kind: "cash_reference", pattern: CASH_REFERENCE_PATTERN, confidence: 0.9 },
+  { kind: "customer_number", pattern: CUSTOMER_NUMBER_PATTERN, confidence: 0.9 },
+  { kind: "invoice_number", pattern: INVOICE_PATTERN, confidence: 0.9 },
+  { kind: "file_number", pattern: REFERENCE_PATTERN, confidence: 0.85 },
+];
+
+/** German labels for reference kinds */
+export const REFERENCE_KIND_LABELS: Record<ReferenceKind, string> = {
+  tax_id: "Steuer-ID",
+  tax_number: "Steuernummer",
+  bg_number: "BG-Nummer",
+  dunning_court_file: "Mahngericht Geschäfts-Nr.",
+  court_file: "Gerichtl. Aktenzeichen",
+  cash_reference: "Kassenzeichen",
+  contribution_number: "Beitragsnummer",
+  customer_number: "Kundennummer",
+  invoice_number: "Rechnungsnummer",
+  file_number: "Aktenzeichen",
+};
+
+// ============================================================================
+// MAIN EXTRACTION
+// ============================================================================
+
+/**
+ * Extract all reference numbers with their kind, in text order.
+ * The same value of the same kind is only reported once.
+ */
+export function extractReferences(text: string): ExtractedReference[] {
+  const references: ExtractedReference[] = [];
+
+  for (const recognizer of REFERENCE_RECOGNIZERS) {
+    const regex = new RegExp(recognizer.pattern.source, "g");
+    let match;
+
+    while ((match = regex.exec(text)) !== null) {
+      // Trailing punctuation belongs to the sentence, not the reference
+      const value = match[1].replace(/[.\-/]+$/, "");
+      const start = match.index + match[0].lastIndexOf(match[1]);
+      const end = start + value.length;
+
+      const overlaps = references.some((r) => start < r.end && end > r.start);
+      const duplicate = references.some((r) => r.kind === recognizer.kind && r.value === value);
+      if (overlaps || duplicate || value.length === 0) continue;
+
+      const isValid = recognizer.validate?.(value);
+      references.push({
+        kind: recognizer.kind,
+        value,
+        start,
+        end,
+        raw: text.substring(start, end),
+        // A failed check digit halves the trust in the match
+        confidence: isValid === false ? recognizer.confidence / 2 : recognizer.confidence,
+        isValid,
+      });
+    }
+  }
+
+  return references.sort((a, b) => a.start - b.start);
+}
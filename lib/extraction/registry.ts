@@ -0,0 +1,149 @@
+/**
+ * Extractor registry.
+ *
+ * Every piece of extracted data comes from an extractor: an id, a run
+ * function and the ids of the extractors whose results it reads. Core and
+ * custom extractors register the same way; runExtractors orders them by
+ * their dependencies and runs each once.
+ *
+ * Custom extractors declare their output type by extending
+ * ExtractionExtensions (see ./extensions), and their results end up in
+ * ExtractedData.extensions.
+ */
+
+import {
+  AmountCheck,
+  Bundesland,
+  CollectionFeeCheck,
+  ContactInfo,
+  ExtractedAmount,
+  ExtractedDate,
+  ExtractedIBAN,
+  ExtractedReference,
+  ExtractionExtensions,
+  InstalmentPlan,
+  LateChargeCheck,
+  LimitationHint,
+  SenderInfo,
+} from "@/types";
+import { ResolvedDeadline } from "./deadline";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Options that influence extraction */
+export interface ExtractionOptions {
+  /** User's Bundesland, used for holiday-aware deadline shifting */
+  bundesland?: Bundesland;
+}
+
+/** Output of each core extractor, by id */
+export interface CoreExtractorOutputs {
+  sender: SenderInfo | undefined;
+  contact: ContactInfo | undefined;
+  dates: ExtractedDate[];
+  amounts: ExtractedAmount[];
+  amountCheck: AmountCheck | undefined;
+  ibans: ExtractedIBAN[];
+  references: ExtractedReference[];
+  deadlineDays: number | undefined;
+  deadline: ResolvedDeadline | undefined;
+  instalmentPlan: InstalmentPlan | undefined;
+  lateCharges: LateChargeCheck[];
+  collectionFees: CollectionFeeCheck | undefined;
+  limitation: LimitationHint | undefined;
+}
+
+/** Output of every registered extractor, by id */
+export type ExtractorOutputs = CoreExtractorOutputs & ExtractionExtensions;
+
+export type ExtractorId = keyof ExtractorOutputs;
+
+/** What an extractor can read while it runs */
+export interface ExtractorContext {
+  /** Normalized letter text */
+  text: string;
+  options: ExtractionOptions;
+  /** Result of an extractor listed in dependsOn */
+  get<K extends ExtractorId>(id: K): ExtractorOutputs[K];
+}
+
+export interface Extractor<K extends ExtractorId = ExtractorId> {
+  id: K;
+  /** Extractors whose results run() reads through context.get */
+  dependsOn?: ExtractorId[];
+  run(context: ExtractorContext): ExtractorOutputs[K];
+}
+
+/** Results of one extraction run */
+export type ExtractorResults = { [K in ExtractorId]?: ExtractorOutputs[K] };
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const extractors = new Map<ExtractorId, Extractor>();
+
+/**
+ * Register an extractor. A later registration with the same id replaces
+ * the earlier one, so a custom extractor can override a core one.
+ */
+export function registerExtractor<K extends ExtractorId>(extractor: Extractor<K>): void {
+  extractors.set(extractor.id, extractor as unknown as Extractor);
+}
+
+/**
+ * Registered extractors, dependencies before the extractors that read them.
+ */
+export function getExtractorOrder(): Extractor[] {
+  const ordered: Extractor[] = [];
+  const state = new Map<ExtractorId, "visiting" | "done">();
+
+  const visit = (id: ExtractorId, requiredBy?: ExtractorId) => {
+    const extractor = extractors.get(id);
+    if (!extractor) {
+      throw new Error(`Extractor "${requiredBy}" depends on unknown extractor "${id}"`);
+    }
+    if (state.get(id) === "done") return;
+    if (state.get(id) === "visiting") {
+      throw new Error(`Extractor "${id}" has a circular dependency`);
+    }
+
+    state.set(id, "visiting");
+    for (const dependency of extractor.dependsOn ?? []) {
+      visit(dependency, id);
+    }
+    state.set(id, "done");
+    ordered.push(extractor);
+  };
+
+  for (const id of extractors.keys()) {
+    visit(id);
+  }
+
+  return ordered;
+}
+
+/**
+ * Run all registered extractors on the text.
+ */
+export function runExtractors(text: string, options: ExtractionOptions = {}): ExtractorResults {
+  const results: ExtractorResults = {};
+
+  for (const extractor of getExtractorOrder()) {
+    const context: ExtractorContext = {
+      text,
+      options,
+      get: (id) => {
+        if (!extractor.dependsOn?.includes(id)) {
+          throw new Error(`Extractor "${extractor.id}" reads "${id}" without declaring it in dependsOn`);
+        }
+        return results[id] as ExtractorOutputs[typeof id];
+      },
+    };
+    (results as Record<ExtractorId, unknown>)[extractor.id] = extractor.run(context);
+  }
+
+  return results;
+}
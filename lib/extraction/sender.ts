@@ -0,0 +1,224 @@
+/**
+ * Sender detection.
+ *
+ * The sender is read from the three places a German letter names it: the
+ * letterhead at the top, the small sender line above the address window
+ * ("Finanzamt Musterstadt · Postfach 10 01 · 12345 Musterstadt") and the
+ * lines below the Grußformel. Names are classified with the authority
+ * gazetteer.
+ */
+
+import { SenderInfo, SenderSource, SourceSpan } from "@/types";
+import { AUTHORITIES } from "./authorities";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SenderCandidate {
+  source: SenderSource;
+  lines: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Non-empty lines at the top of the letter treated as letterhead */
+const LETTERHEAD_LINES = 6;
+
+/** Lines read after the Grußformel */
+const CLOSING_LINES = 3;
+
+/** Confidence of a gazetteer match per part of the letter */
+const SOURCE_CONFIDENCE: Record<SenderSource, number> = {
+  letterhead: 0.9,
+  sender_line: 0.85,
+  closing: 0.75,
+};
+
+/** Confidence of an unclassified name from the sender line or closing */
+const UNCLASSIFIED_CONFIDENCE = 0.4;
+
+/** Sender line: separated parts ending in a postcode and town */
+const SENDER_LINE_PATTERN = /^[^\n]{3,120}?(?:\s*[·•|,]\s*|\s+[-–]\s+)[^\n]*\b\d{5}\s+[A-ZÄÖÜ]/;
+
+/** Separators between the parts of a sender line */
+const SENDER_LINE_SEPARATOR = /\s*[·•|,]\s*|\s+[-–]\s+/;
+
+/** Start of the letter body; the letterhead ends here */
+const SALUTATION_PATTERN = /^(?:sehr\s+geehrte|guten\s+tag|hallo|liebe[rs]?\s)/i;
+
+/**
+ * Letterhead lines that name someone the sender acts for ("Auftraggeber:
+ * AOK Bayern", "im Auftrag der Stadtwerke"), not the sender itself.
+ */
+const PRINCIPAL_PATTERN = /\b(?:Auftraggeber\w*|Gl[äa]ubiger\w*|Mandant\w*)\b|\bim\s+Auftrag\b/i;
+
+/** First line of the recipient address in the address window */
+const RECIPIENT_PATTERN = /^(?:Herrn?|Frau|Familie|Eheleute|Firma)\b/i;
+
+/** Last line of an address: postcode and town */
+const POSTCODE_LINE_PATTERN = /^(?:D-)?\d{5}\s+[A-ZÄÖÜ]/;
+
+/** Longest recipient address, in lines */
+const RECIPIENT_LINES = 5;
+
+/** Grußformel */
+const CLOSING_PATTERN = /^(?:mit\s+freundlichen\s+gr[üu](?:ß|ss)en|freundliche\s+gr[üu](?:ß|ss)e|hochachtungsvoll|mit\s+besten\s+gr[üu](?:ß|ss)en)/i;
+
+/** Signature lines below the Grußformel that do not name the sender */
+const SIGNATURE_PATTERN = /^(?:i\.\s?A\.|im\s+auftrag|i\.\s?V\.|in\s+vertretung|gez\.|\(?unterschrift\)?|dieses\s+schreiben\s+wurde\s+maschinell)/i;
+
+/**
+ * Register and tax details in letterheads and footers. They mention an
+ * Amtsgericht or Finanzamt without it being the sender.
+ */
+const IMPRINT_PATTERN = /registergericht|\bHR[AB]\b|ust-?id|steuer-?nr|steuernummer|gesch[äa]ftsf[üu]hr|vorstand|sitz\s+der\s+gesellschaft/i;
+
+// ============================================================================
+// CANDIDATES
+// ============================================================================
+
+function toLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !IMPRINT_PATTERN.test(line));
+}
+
+/**
+ * Lines of the recipient address: from "Herrn"/"Frau" to the postcode line.
+ */
+function findRecipientLines(header: string[]): Set<number> {
+  const recipient = new Set<number>();
+  const first = header.findIndex((line) => RECIPIENT_PATTERN.test(line));
+  if (first === -1) return recipient;
+
+  for (let i = first; i < Math.min(header.length, first + RECIPIENT_LINES); i++) {
+    recipient.add(i);
+    if (POSTCODE_LINE_PATTERN.test(header[i])) break;
+  }
+  return recipient;
+}
+
+/**
+ * Lines above the salutation, without the recipient address and lines
+ * naming the creditor the sender acts for.
+ */
+function getLetterheadLines(lines: string[]): string[] {
+  const salutation = lines.findIndex((line) => SALUTATION_PATTERN.test(line));
+  const header = salutation === -1 ? lines.slice(0, LETTERHEAD_LINES * 2) : lines.slice(0, salutation);
+  const recipient = findRecipientLines(header);
+
+  return header
+    .filter((line, index) => !recipient.has(index) && !PRINCIPAL_PATTERN.test(line))
+    .slice(0, LETTERHEAD_LINES);
+}
+
+/**
+ * First part of each sender line above the salutation.
+ */
+function getSenderLineNames(lines: string[]): string[] {
+  const salutation = lines.findIndex((line) => SALUTATION_PATTERN.test(line));
+  const header = salutation === -1 ? lines.slice(0, LETTERHEAD_LINES * 2) : lines.slice(0, salutation);
+
+  return header
+    .filter((line) => SENDER_LINE_PATTERN.test(line))
+    .map((line) => line.split(SENDER_LINE_SEPARATOR)[0].trim())
+    .filter((name) => !/^\d/.test(name));
+}
+
+/**
+ * Lines below the last Grußformel, without signature markers.
+ */
+function getClosingLines(lines: string[]): string[] {
+  let closing = -1;
+  lines.forEach((line, index) => {
+    if (CLOSING_PATTERN.test(line)) closing = index;
+  });
+  if (closing === -1) return [];
+
+  return lines
+    .slice(closing + 1)
+    .filter((line) => !SIGNATURE_PATTERN.test(line))
+    .slice(0, CLOSING_LINES);
+}
+
+/**
+ * Locate a sender name in the letter. Lines are trimmed copies, so the
+ * name is searched again: from the top for the header, from the bottom
+ * for the closing.
+ */
+function locate(text: string, raw: string, source: SenderSource, confidence: number): SourceSpan {
+  const start = source === "closing" ? text.lastIndexOf(raw) : text.indexOf(raw);
+  return { start, end: start === -1 ? -1 : start + raw.length, raw, confidence };
+}
+
+// ============================================================================
+// MAIN EXTRACTION
+// ============================================================================
+
+/**
+ * Find the first line of a group that matches the gazetteer. Within a line
+ * gazetteer order decides, so "Stadtkasse Musterstadt" is not read as the
+ * municipality.
+ */
+function matchAuthority(text: string, candidate: SenderCandidate): SenderInfo | undefined {
+  for (const line of candidate.lines) {
+    for (const authority of AUTHORITIES) {
+      const match = authority.pattern.exec(line);
+      if (match) {
+        return {
+          name: authority.canonicalName ?? match[0].trim().replace(/[,.;:]+$/, ""),
+          type: authority.type,
+          source: candidate.source,
+          ...locate(text, match[0], candidate.source, SOURCE_CONFIDENCE[candidate.source]),
+        };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Detect who sent the letter.
+ * Falls back to the sender line or closing without classification when no
+ * gazetteer entry matches.
+ */
+export function extractSender(text: string): SenderInfo | undefined {
+  const lines = toLines(text);
+  const senderLineNames = getSenderLineNames(lines);
+  const closingLines = getClosingLines(lines);
+
+  const candidates: SenderCandidate[] = [
+    { source: "letterhead", lines: getLetterheadLines(lines) },
+    { source: "sender_line", lines: senderLineNames },
+    { source: "closing", lines: closingLines },
+  ];
+
+  for (const candidate of candidates) {
+    const sender = matchAuthority(text, candidate);
+    if (sender) return sender;
+  }
+
+  if (senderLineNames.length > 0) {
+    return {
+      name: senderLineNames[0],
+      type: "unknown",
+      source: "sender_line",
+      ...locate(text, senderLineNames[0], "sender_line", UNCLASSIFIED_CONFIDENCE),
+    };
+  }
+  if (closingLines.length > 0) {
+    return {
+      name: closingLines[0],
+      type: "unknown",
+      source: "closing",
+      ...locate(text, closingLines[0], "closing", UNCLASSIFIED_CONFIDENCE),
+    };
+  }
+
+  return undefined;
+}
@@ -164,6 +164,10 @@ export function createHistoryEntry(
     category: result.scoring.category,
     categoryLabel: result.scoring.categoryLabel,
     preview: extractPreview(result.rawText),
+    sender: result.extractedData.sender && {
+      name: result.extractedData.sender.name,
+      type: result.extractedData.sender.type,
+    },
     summary: result.scoring.summary,
     matches: convertMatches(result.scoring.matches),
     recommendations: result.scoring.recommendations,
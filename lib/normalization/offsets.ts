@@ -0,0 +1,280 @@
+/**
+ * Offset tracking through normalization.
+ *
+ * Every normalization step records the ranges it changed, so that a span
+ * found in the normalized text (keyword, amount, IBAN) can be projected
+ * back onto the raw OCR or PDF text, and from there onto the word boxes of
+ * the scanned page. Each change is also logged with the rule that made it,
+ * and changes the user rejected are left out on the next run.
+ */
+
+import { NormalizationChange, NormalizationRule, OffsetEdit, OffsetMap } from "@/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Logged change; start and end are offsets in the text after the first `step` steps */
+interface LoggedChange extends NormalizationChange {
+  step: number;
+}
+
+/** Text together with the way back to the raw input */
+export interface MappedText {
+  text: string;
+  map: OffsetMap;
+  /** Changes so far, rejected ones included */
+  log: LoggedChange[];
+  /** Ids of changes to leave out */
+  rejected: ReadonlySet<string>;
+}
+
+/** Replacement of input[start, end) with text */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Replacement string ($1, $&) or function of the match, its groups, its offset and the whole text */
+export type Replacement =
+  | string
+  | ((match: string, groups: (string | undefined)[], offset: number, text: string) => string);
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Start tracking a raw text, leaving out the given changes.
+ */
+export function createMappedText(text: string, rejected: Iterable<string> = []): MappedText {
+  return { text, map: { steps: [] }, log: [], rejected: new Set(rejected) };
+}
+
+/**
+ * Apply sorted, non-overlapping edits of one rule as one step. Edits the
+ * user rejected are logged but not applied.
+ */
+export function applyEdits(input: MappedText, edits: TextEdit[], rule: NormalizationRule): MappedText {
+  if (edits.length === 0) return input;
+
+  const parts: string[] = [];
+  const step: OffsetEdit[] = [];
+  const changes: LoggedChange[] = [];
+  let sourcePosition = 0;
+  let position = 0;
+
+  for (const edit of edits) {
+    const unchanged = input.text.substring(sourcePosition, edit.start);
+    const before = input.text.substring(edit.start, edit.end);
+    const raw = toRawSpan(input.map, edit.start, edit.end);
+    const id = `${rule}:${raw.start}-${raw.end}:${before}`;
+    const accepted = !input.rejected.has(id);
+    const text = accepted ? edit.text : before;
+
+    parts.push(unchanged, text);
+    position += unchanged.length;
+
+    if (accepted) {
+      step.push({
+        start: position,
+        end: position + text.length,
+        sourceStart: edit.start,
+        sourceEnd: edit.end,
+      });
+    }
+
+    changes.push({
+      id,
+      rule,
+      rawStart: raw.start,
+      rawEnd: raw.end,
+      start: position,
+      end: position + text.length,
+      before,
+      after: edit.text,
+      accepted,
+      step: input.map.steps.length + 1,
+    });
+
+    position += text.length;
+    sourcePosition = edit.end;
+  }
+  parts.push(input.text.substring(sourcePosition));
+
+  if (step.length === 0) {
+    // Everything rejected: the text is unchanged and no step is added
+    const unchanged = changes.map((change) => ({ ...change, step: change.step - 1 }));
+    return { ...input, log: [...input.log, ...unchanged] };
+  }
+
+  return {
+    text: parts.join(""),
+    map: { steps: [...input.map.steps, step] },
+    log: [...input.log, ...changes],
+    rejected: input.rejected,
+  };
+}
+
+/**
+ * Expand $1..$99, $& and $$ in a replacement string.
+ */
+function expandReplacement(replacement: string, match: string, groups: (string | undefined)[]): string {
+  return replacement.replace(/\$(\$|&|\d{1,2})/g, (_, token: string) => {
+    if (token === "$") return "$";
+    if (token === "&") return match;
+    return groups[Number(token) - 1] ?? "";
+  });
+}
+
+/**
+ * Edit replacing match at offset with text, without the characters at
+ * either end that both share. Patterns match context they only write back
+ * ("$1-$2"); only what changed should move offsets and word boxes.
+ */
+function trimEdit(match: string, offset: number, text: string): TextEdit {
+  let prefix = 0;
+  while (prefix < match.length && prefix < text.length && match[prefix] === text[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < match.length - prefix && suffix < text.length - prefix &&
+    match[match.length - 1 - suffix] === text[text.length - 1 - suffix]
+  ) suffix++;
+
+  return {
+    start: offset + prefix,
+    end: offset + match.length - suffix,
+    text: text.substring(prefix, text.length - suffix),
+  };
+}
+
+/**
+ * String.prototype.replace that records what it changed as one step.
+ */
+export function mappedReplace(
+  input: MappedText,
+  pattern: RegExp,
+  replacement: Replacement,
+  rule: NormalizationRule
+): MappedText {
+  const edits: TextEdit[] = [];
+
+  input.text.replace(pattern, (...args: unknown[]) => {
+    const match = args[0] as string;
+    // Arguments end with offset and whole string, plus a groups object for named groups
+    const tail = typeof args[args.length - 1] === "object" ? 3 : 2;
+    const offset = args[args.length - tail] as number;
+    const groups = args.slice(1, args.length - tail) as (string | undefined)[];
+
+    const text = typeof replacement === "string"
+      ? expandReplacement(replacement, match, groups)
+      : replacement(match, groups, offset, input.text);
+
+    if (text !== match) {
+      edits.push(trimEdit(match, offset, text));
+    }
+    return text;
+  });
+
+  return applyEdits(input, edits, rule);
+}
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Offset in the input of one step. An offset inside a replaced range maps
+ * to the start (or, for span ends, the end) of the range it replaced.
+ */
+function toStepSource(step: OffsetEdit[], offset: number, isEnd: boolean): number {
+  let delta = 0;
+
+  for (const edit of step) {
+    if (offset < edit.start || (offset === edit.start && edit.start < edit.end)) break;
+
+    if (edit.start === edit.end) {
+      // Deletion at this point: spans start after the deleted text, end before it
+      if (offset === edit.start) return isEnd ? edit.sourceStart : edit.sourceEnd;
+    } else if (offset < edit.end) {
+      return isEnd ? edit.sourceEnd : edit.sourceStart;
+    }
+
+    delta = edit.sourceEnd - edit.end;
+  }
+
+  return offset + delta;
+}
+
+/**
+ * Project an offset of the normalized text onto the raw text.
+ */
+export function toRawOffset(map: OffsetMap, offset: number, isEnd = false): number {
+  let result = offset;
+  for (let i = map.steps.length - 1; i >= 0; i--) {
+    result = toStepSource(map.steps[i], result, isEnd);
+  }
+  return result;
+}
+
+/**
+ * Project a span of the normalized text onto the raw text.
+ */
+export function toRawSpan(map: OffsetMap, start: number, end: number): { start: number; end: number } {
+  return {
+    start: toRawOffset(map, start),
+    end: Math.max(toRawOffset(map, start), toRawOffset(map, end, true)),
+  };
+}
+
+/**
+ * Offset in the output of one step. An offset inside a replaced range maps
+ * to the start (or, for span ends, the end) of its replacement.
+ */
+function toStepOutput(step: OffsetEdit[], offset: number, isEnd: boolean): number {
+  let delta = 0;
+
+  for (const edit of step) {
+    if (offset < edit.sourceStart || (offset === edit.sourceStart && edit.sourceStart < edit.sourceEnd)) break;
+
+    if (edit.sourceStart === edit.sourceEnd) {
+      // Insertion at this point: spans start after the inserted text, end before it
+      if (offset === edit.sourceStart) return isEnd ? edit.start : edit.end;
+    } else if (offset < edit.sourceEnd) {
+      return isEnd ? edit.end : edit.start;
+    }
+
+    delta = edit.end - edit.sourceEnd;
+  }
+
+  return offset + delta;
+}
+
+/**
+ * Project a span of the raw text onto the normalized text, e.g. an OCR
+ * word onto the text the analysis ran on.
+ */
+export function toNormalizedSpan(map: OffsetMap, start: number, end: number): { start: number; end: number } {
+  let result = { start, end };
+  for (const step of map.steps) {
+    result = { start: toStepOutput(step, result.start, false), end: toStepOutput(step, result.end, true) };
+  }
+  return { start: result.start, end: Math.max(result.start, result.end) };
+}
+
+/**
+ * All changes normalization made or was told to leave out, positioned in
+ * the raw and in the normalized text.
+ */
+export function getNormalizationLog(input: MappedText): NormalizationChange[] {
+  return input.log.map(({ step, ...change }) => {
+    let { start, end } = change;
+    for (const later of input.map.steps.slice(step)) {
+      start = toStepOutput(later, start, false);
+      end = toStepOutput(later, end, true);
+    }
+    return { ...change, start, end: Math.max(start, end) };
+  });
+}
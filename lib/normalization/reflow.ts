@@ -0,0 +1,130 @@
+/**
+ * Line reflow for OCR and PDF text.
+ *
+ * Both break words and sentences at the end of each printed line:
+ * "Vollstre-\nckung" is not found as a keyword and a sentence wrapped over
+ * two lines is split in two. Reflow joins hyphenated words and merges the
+ * wrapped lines of a paragraph, but keeps the line structure of the address
+ * block, tables, lists and label/value lines, which the extractors rely on.
+ */
+
+import { MappedText, TextEdit, applyEdits, mappedReplace } from "./offsets";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Soft hyphen, invisible unless the word is broken there */
+const SOFT_HYPHEN = "\u00AD";
+
+/** Hyphen at line end before a lowercase continuation: "Vollstre-\nckung" */
+const BROKEN_WORD_PATTERN = /([A-Za-zÄÖÜäöüß])-[ \t]*\n[ \t]*([a-zäöüß])/g;
+
+/** Hyphen at line end before a capitalised part: "Kfz-\nSteuer" keeps its hyphen */
+const BROKEN_COMPOUND_PATTERN = /([A-Za-zÄÖÜäöüß0-9])-[ \t]*\n[ \t]*([A-ZÄÖÜ0-9])/g;
+
+/** Suspended hyphen: "Ein-\nund Ausgang" keeps hyphen and line break */
+const SUSPENDED_HYPHEN_PATTERN = /^(?:und|oder|bzw|sowie|bis)\b/;
+
+/** List items: bullets, "1.", "a)" */
+const LIST_ITEM_PATTERN = /^\s*(?:[-•*▪–]|\d{1,2}[.)]|[a-z]\))\s/;
+
+/** Table rows: columns separated by tabs or runs of spaces */
+const TABLE_ROW_PATTERN = /\S(?:\t| {2,})\S/;
+
+/** Lines ending in an amount or number, as in itemised costs */
+const NUMBER_END_PATTERN = /\d\s*(?:€|EUR|Euro)?$/;
+
+/** Label/value lines: "Telefon: 0123 456", "Kassenzeichen: 123" */
+const LABEL_PATTERN = /^[^:]{1,30}:\s*\S/;
+
+/** Salutation, a line of its own even though the sentence goes on */
+const SALUTATION_PATTERN = /^\s*(?:sehr\s+geehrte|guten\s+tag|hallo|liebe[rs]?\s)/i;
+
+/** Line ends that close a sentence or introduce a block */
+const CLOSING_PUNCTUATION_PATTERN = /[.!?:;]$/;
+
+/** A line this long relative to the longest line is a wrapped paragraph line */
+const WRAP_RATIO = 0.6;
+
+/** Line ends mid-sentence: a lowercase word ("der", "zahlen") or a comma */
+const OPEN_END_PATTERN = /(?:^|\s)[a-zäöüß][^\s]*$|,$/;
+
+// ============================================================================
+// REFLOW
+// ============================================================================
+
+/**
+ * Join words hyphenated at the line end. Real compound hyphens
+ * ("Kfz-Steuer") and suspended hyphens ("Ein- und Ausgang") stay.
+ */
+export function joinHyphenatedWords(input: MappedText): MappedText {
+  let result = mappedReplace(input, new RegExp(`${SOFT_HYPHEN}[ \\t]*\\n[ \\t]*`, "g"), "", "hyphenation");
+  result = mappedReplace(result, new RegExp(SOFT_HYPHEN, "g"), "", "hyphenation");
+  result = mappedReplace(result, BROKEN_WORD_PATTERN, (match, [before, after], offset, text) => {
+    const rest = text.substring(offset + match.length - 1);
+    return SUSPENDED_HYPHEN_PATTERN.test(rest) ? match : `${before}${after}`;
+  }, "hyphenation");
+  return mappedReplace(result, BROKEN_COMPOUND_PATTERN, "$1-$2", "hyphenation");
+}
+
+/**
+ * Whether the line has its own layout that merging would destroy.
+ */
+function isStructuralLine(line: string): boolean {
+  return SALUTATION_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    TABLE_ROW_PATTERN.test(line) ||
+    NUMBER_END_PATTERN.test(line) ||
+    LABEL_PATTERN.test(line);
+}
+
+/**
+ * Whether the next line continues the sentence of the previous one.
+ * Either the next line starts in lowercase, or the previous line fills
+ * most of the line width and ends mid-sentence. The short lines of the
+ * address block and letterhead therefore stay apart.
+ */
+function continuesLine(previous: string, next: string, maxLength: number): boolean {
+  const before = previous.trim();
+  const after = next.trim();
+
+  if (before.length === 0 || after.length === 0) return false;
+  if (isStructuralLine(previous) || isStructuralLine(next)) return false;
+  if (CLOSING_PUNCTUATION_PATTERN.test(before)) return false;
+
+  return /^[a-zäöüß]/.test(after) ||
+    (before.length >= maxLength * WRAP_RATIO && OPEN_END_PATTERN.test(before));
+}
+
+/**
+ * Merge the wrapped lines of each paragraph into one line.
+ */
+export function mergeWrappedLines(input: MappedText): MappedText {
+  const lines = input.text.split("\n");
+  const maxLength = Math.max(...lines.map((line) => line.trim().length));
+  const edits: TextEdit[] = [];
+  let lineStart = 0;
+
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    if (previous !== undefined && continuesLine(previous, line, maxLength)) {
+      // Replace the line break and the whitespace around it with one space
+      edits.push({
+        start: lineStart - 1 - (previous.length - previous.trimEnd().length),
+        end: lineStart + (line.length - line.trimStart().length),
+        text: " ",
+      });
+    }
+    lineStart += line.length + 1;
+  });
+
+  return applyEdits(input, edits, "line-merge");
+}
+
+/**
+ * Join hyphenated words, then merge wrapped paragraph lines.
+ */
+export function reflowText(input: MappedText): MappedText {
+  return mergeWrappedLines(joinHyphenatedWords(input));
+}
@@ -0,0 +1,250 @@
+/**
+ * Dictionary-backed OCR word correction.
+ *
+ * A token is only rewritten when it is not a known word and exactly one
+ * known word can be reached from it by typical OCR confusions alone; any
+ * other edit rules a word out. Confusions with digits or letter groups
+ * (rn/m, cl/d, 1/l, 0/o) are always considered, so "Terrnin" becomes
+ * "Termin", "Forclerung" "Forderung", "iiberweisen" "überweisen",
+ * "Vervvaltung" "Verwaltung" and "Wolmung" "Wohnung". Confusions between two
+ * real letters (f/t, n/u) and umlauts that lost their dots are only
+ * considered in words Tesseract rated low, and an umlaut is never removed.
+ * So correct but unlisted words stay as they are: "Fernseher",
+ * "Förderung" (not "Forderung"), "Zählung" (not "Zahlung"), "Haften" (not
+ * "hatten"), "Vollstrecker" (not "vollstrecken") and "Mahnbescheide" (not
+ * "Mahnbescheid"). Amounts, IBANs, reference numbers, e-mail addresses and
+ * URLs are never touched.
+ */
+
+import { ALL_KEYWORDS } from "@/lib/scoring/keywords";
+import { extractAmounts } from "@/lib/extraction/amounts";
+import { extractIBANs } from "@/lib/extraction/iban";
+import { extractReferences } from "@/lib/extraction/references";
+import { GERMAN_WORDS } from "./wordlist";
+import { MappedText, mappedReplace, toRawSpan } from "./offsets";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Confusions with digits or letter groups, in either direction. A real
+ * word rarely reads as another one through these.
+ */
+const SHAPE_CONFUSIONS: [string, string][] = [
+  ["rn", "m"],
+  ["cl", "d"],
+  ["vv", "w"],
+  ["li", "h"],
+  ["lm", "hn"],
+  ["ii", "ü"],
+  ["0", "o"],
+  ["1", "l"],
+  ["1", "i"],
+  ["5", "s"],
+  ["8", "b"],
+  ["6", "b"],
+  ["9", "g"],
+];
+
+/**
+ * Confusions between two letters, in either direction. Both readings are
+ * plausible words ("Haften", "hatten"), so only trusted in low-rated words.
+ */
+const LETTER_CONFUSIONS: [string, string][] = [
+  ["l", "i"],
+  ["c", "e"],
+  ["n", "u"],
+  ["f", "t"],
+  ["b", "ß"],
+];
+
+/** Umlauts that lost their dots: [read, intended]. Only ever restored, in low-rated words */
+const LOST_UMLAUTS: [string, string][] = [
+  ["a", "ä"],
+  ["o", "ö"],
+  ["u", "ü"],
+];
+
+/** Confusions of letter groups, in both directions: [read, intended] */
+const GROUP_CONFUSIONS: [string, string][] = SHAPE_CONFUSIONS
+  .filter(([a, b]) => a.length > 1 || b.length > 1)
+  .flatMap(([a, b]): [string, string][] => [[a, b], [b, a]]);
+
+/** Cost of one OCR confusion */
+const CONFUSION_COST = 0.5;
+
+/** Highest accepted distance: one confusion, or two in long words */
+const MAX_COST_SHORT = 0.5;
+const MAX_COST_LONG = 1;
+const LONG_WORD_LENGTH = 10;
+
+/** Shorter tokens are abbreviations or too ambiguous to correct */
+const MIN_TOKEN_LENGTH = 4;
+
+/** Word-like tokens, including digits OCR put in place of letters */
+const TOKEN_PATTERN = /[A-Za-zÄÖÜäöüß0-9]+/g;
+
+/** E-mail addresses and URLs */
+const ADDRESS_PATTERN = /\S+@\S+|https?:\/\/\S+|www\.\S+/gi;
+
+// ============================================================================
+// DICTIONARY
+// ============================================================================
+
+/** Word list plus the words of the scoring keywords */
+const KNOWN_WORDS = new Set<string>([
+  ...GERMAN_WORDS,
+  ...ALL_KEYWORDS.flatMap((definition) => definition.keyword.split(/\s+/)),
+]);
+
+/** Known words by length, to compare only against words of similar length */
+const WORDS_BY_LENGTH = new Map<number, string[]>();
+for (const word of KNOWN_WORDS) {
+  WORDS_BY_LENGTH.set(word.length, [...(WORDS_BY_LENGTH.get(word.length) ?? []), word]);
+}
+
+/**
+ * Whether a word is in the dictionary (case-insensitive).
+ */
+export function isKnownWord(word: string): boolean {
+  return KNOWN_WORDS.has(word.toLowerCase());
+}
+
+// ============================================================================
+// DISTANCE
+// ============================================================================
+
+function isConfusion(read: string, intended: string, isLowConfidence: boolean): boolean {
+  const either = ([a, b]: [string, string]) => (a === read && b === intended) || (b === read && a === intended);
+  if (SHAPE_CONFUSIONS.some(either)) return true;
+  return isLowConfidence &&
+    (LETTER_CONFUSIONS.some(either) || LOST_UMLAUTS.some(([a, b]) => a === read && b === intended));
+}
+
+/**
+ * Distance from the read token to a known word in OCR confusions
+ * (including two-for-one like "rn" for "m") at CONFUSION_COST each;
+ * Infinity if any other edit is needed or maxCost is exceeded.
+ */
+function ocrDistance(read: string, word: string, maxCost: number, isLowConfidence: boolean): number {
+  const rows = read.length + 1;
+  const cols = word.length + 1;
+  const dist: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(Infinity));
+  dist[0][0] = 0;
+  let previousRowMin = 0;
+
+  for (let i = 1; i < rows; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j < cols; j++) {
+      const a = read[i - 1];
+      const b = word[j - 1];
+      let best = a === b
+        ? dist[i - 1][j - 1]
+        : isConfusion(a, b, isLowConfidence) ? dist[i - 1][j - 1] + CONFUSION_COST : Infinity;
+
+      // Confusions of letter groups ("rn" read for "m" and vice versa)
+      for (const [from, to] of GROUP_CONFUSIONS) {
+        if (i >= from.length && j >= to.length &&
+            read.endsWith(from, i) && word.endsWith(to, j)) {
+          best = Math.min(best, dist[i - from.length][j - to.length] + CONFUSION_COST);
+        }
+      }
+
+      dist[i][j] = best;
+      rowMin = Math.min(rowMin, best);
+    }
+    // A confusion spans at most two read characters ("rn"), so the row of
+    // its first character can be all Infinity; give up after two such rows
+    if (rowMin > maxCost && previousRowMin > maxCost) return Infinity;
+    previousRowMin = rowMin;
+  }
+
+  return dist[read.length][word.length];
+}
+
+// ============================================================================
+// CORRECTION
+// ============================================================================
+
+/**
+ * The single known word closest to the token, or undefined if there is no
+ * close word or several equally close ones. Letter confusions and lost
+ * umlauts count only if Tesseract rated the word low.
+ */
+export function findCorrection(token: string, isLowConfidence = false): string | undefined {
+  const read = token.toLowerCase();
+  const maxCost = read.length >= LONG_WORD_LENGTH ? MAX_COST_LONG : MAX_COST_SHORT;
+
+  let bestCost = Infinity;
+  let best: string[] = [];
+
+  for (let length = read.length - 2; length <= read.length + 2; length++) {
+    for (const word of WORDS_BY_LENGTH.get(length) ?? []) {
+      const cost = ocrDistance(read, word, maxCost, isLowConfidence);
+      if (cost > maxCost) continue;
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = [word];
+      } else if (cost === bestCost && !best.includes(word)) {
+        best.push(word);
+      }
+    }
+  }
+
+  return best.length === 1 ? best[0] : undefined;
+}
+
+/**
+ * Carry the capitalisation of the read token over to the correction.
+ */
+function matchCase(token: string, word: string): string {
+  const letters = token.replace(/[^A-Za-zÄÖÜäöüß]/g, "");
+  if (letters.length > 1 && letters === letters.toUpperCase()) return word.toUpperCase();
+  if (/^[A-ZÄÖÜ]/.test(token)) return word[0].toUpperCase() + word.slice(1);
+  return word;
+}
+
+/**
+ * Text ranges that must not be corrected: amounts, IBANs, reference
+ * numbers, e-mail addresses and URLs.
+ */
+function findProtectedRanges(text: string): [number, number][] {
+  const ranges: [number, number][] = [
+    ...extractAmounts(text),
+    ...extractIBANs(text),
+    ...extractReferences(text),
+  ].map((item): [number, number] => [item.start, item.end]);
+
+  for (const match of text.matchAll(ADDRESS_PATTERN)) {
+    ranges.push([match.index ?? 0, (match.index ?? 0) + match[0].length]);
+  }
+
+  return ranges;
+}
+
+/**
+ * Correct OCR misreadings word by word against the dictionary.
+ * lowConfidence holds the ranges of the raw text Tesseract read with low
+ * confidence.
+ */
+export function correctOcrWords(input: MappedText, lowConfidence: [number, number][] = []): MappedText {
+  const protectedRanges = findProtectedRanges(input.text);
+  // Letters repeat their words; look each one up once
+  const corrections = new Map<string, string | undefined>();
+
+  return mappedReplace(input, TOKEN_PATTERN, (token, _, offset) => {
+    if (token.length < MIN_TOKEN_LENGTH || /^\d+$/.test(token) || isKnownWord(token)) return token;
+
+    const end = offset + token.length;
+    if (protectedRanges.some(([start, stop]) => offset < stop && end > start)) return token;
+
+    const raw = toRawSpan(input.map, offset, end);
+    const isLowConfidence = lowConfidence.some(([start, stop]) => raw.start < stop && raw.end > start);
+
+    const key = `${token}:${isLowConfidence}`;
+    if (!corrections.has(key)) corrections.set(key, findCorrection(token, isLowConfidence));
+    const correction = corrections.get(key);
+    return correction ? matchCase(token, correction) : token;
+  }, "spelling");
+}
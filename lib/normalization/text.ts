@@ -2,23 +2,18 @@
  * Text normalization for OCR error correction.
  */
 
+import { NormalizationChange, NormalizationRule, OcrDocument } from "@/types";
+import { getLowConfidenceWords } from "@/lib/ocr/layout";
+import { correctOcrWords } from "./spelling";
+import { normalizeUnicode } from "./unicode";
+import { reflowText } from "./reflow";
+import { MappedText, createMappedText, mappedReplace } from "./offsets";
+
 /**
- * Common OCR errors in German text.
+ * Fixed rewrites for German letter text. Letter confusions inside words
+ * are handled by the dictionary in ./spelling instead.
  */
 const OCR_CORRECTIONS: [RegExp, string][] = [
-  // Common letter confusions
-  [/l{2,}/g, "ll"],           // Multiple 'l' merged
-  [/([a-z])0([a-z])/gi, "$1o$2"], // Zero as 'o'
-  [/([a-z])1([a-z])/gi, "$1l$2"], // One as 'l'
-  [/([a-z])5([a-z])/gi, "$1s$2"], // Five as 's'
-  [/rn/g, "m"],               // 'rn' often misread as 'm'
-
-  // German-specific
-  [/ä/g, "ä"],                // Ensure proper umlaut
-  [/ö/g, "ö"],
-  [/ü/g, "ü"],
-  [/ß/g, "ß"],
-
   // Common word fixes
   [/\bMahn\s*ung\b/gi, "Mahnung"],
   [/\bZah\s*lung\b/gi, "Zahlung"],
@@ -31,37 +26,62 @@ const OCR_CORRECTIONS: [RegExp, string][] = [
   [/Voll streck/gi, "Vollstreck"],
 ];
 
+/** German labels for normalization rules */
+export const NORMALIZATION_RULE_LABELS: Record<NormalizationRule, string> = {
+  umlaut: "Umlaut zusammengesetzt",
+  invisible: "Unsichtbares Zeichen entfernt",
+  fullwidth: "Breites Zeichen ersetzt",
+  ligature: "Ligatur aufgelöst",
+  typography: "Typografisches Zeichen vereinfacht",
+  "look-alike": "Fremdes Schriftzeichen ersetzt",
+  "word-join": "Getrenntes Wort zusammengefügt",
+  hyphenation: "Silbentrennung aufgehoben",
+  "line-merge": "Zeilenumbruch im Absatz entfernt",
+  currency: "Betrag repariert",
+  spelling: "Wort korrigiert",
+  whitespace: "Leerraum bereinigt",
+};
+
+/** Rules that only change spacing and line layout, never a word */
+const LAYOUT_RULES: NormalizationRule[] = ["invisible", "line-merge", "whitespace"];
+
+/**
+ * Whether a change can alter a word, and so the keywords found.
+ */
+export function isCorrection(change: NormalizationChange): boolean {
+  return !LAYOUT_RULES.includes(change.rule);
+}
+
 /**
  * Fix broken currency amounts.
  */
-function fixCurrencyAmounts(text: string): string {
+function fixCurrencyAmounts(input: MappedText): MappedText {
   // Fix "1 .200,00" -> "1.200,00"
-  return text.replace(/(\d)\s+\.(\d)/g, "$1.$2")
-    // Fix "1. 200,00" -> "1.200,00"
-    .replace(/(\d)\.\s+(\d)/g, "$1.$2")
-    // Fix "1.200 ,00" -> "1.200,00"
-    .replace(/(\d)\s+,(\d)/g, "$1,$2");
+  let result = mappedReplace(input, /(\d)\s+\.(\d)/g, "$1.$2", "currency");
+  // Fix "1. 200,00" -> "1.200,00"
+  result = mappedReplace(result, /(\d)\.\s+(\d)/g, "$1.$2", "currency");
+  // Fix "1.200 ,00" -> "1.200,00"
+  return mappedReplace(result, /(\d)\s+,(\d)/g, "$1,$2", "currency");
 }
 
 /**
  * Remove excessive whitespace while preserving structure.
  */
-function normalizeWhitespace(text: string): string {
-  return text
-    .replace(/\t/g, " ")           // Replace tabs
-    .replace(/  +/g, " ")          // Multiple spaces to single
-    .replace(/\n{3,}/g, "\n\n")    // Max 2 newlines
-    .trim();
+function normalizeWhitespace(input: MappedText): MappedText {
+  let result = mappedReplace(input, /\t/g, " ", "whitespace");      // Replace tabs
+  result = mappedReplace(result, /  +/g, " ", "whitespace");        // Multiple spaces to single
+  result = mappedReplace(result, /\n{3,}/g, "\n\n", "whitespace");  // Max 2 newlines
+  return mappedReplace(result, /^\s+|\s+$/g, "", "whitespace");     // Trim
 }
 
 /**
  * Apply OCR corrections to text.
  */
-function applyCorrections(text: string): string {
-  let result = text;
+function applyCorrections(input: MappedText): MappedText {
+  let result = input;
 
   for (const [pattern, replacement] of OCR_CORRECTIONS) {
-    result = result.replace(pattern, replacement);
+    result = mappedReplace(result, pattern, replacement, "word-join");
   }
 
   return result;
@@ -71,14 +91,41 @@ function applyCorrections(text: string): string {
  * Normalize OCR text for better analysis.
  */
 export function normalizeText(rawText: string): string {
-  let text = rawText;
+  return normalizeTextWithMap(rawText).text;
+}
+
+/**
+ * Normalize OCR text and keep the offset map back to the raw text
+ * (see toRawSpan in ./offsets) and the log of changes (see
+ * getNormalizationLog). Changes whose ids are in rejectedChanges are left out.
+ * With the OCR document the raw text was read as, words Tesseract rated
+ * low get more corrections.
+ */
+export function normalizeTextWithMap(
+  rawText: string,
+  rejectedChanges: Iterable<string> = [],
+  ocrDocument?: OcrDocument
+): MappedText {
+  let text = createMappedText(rawText, rejectedChanges);
+  const lowConfidence = ocrDocument?.text === rawText
+    ? getLowConfidenceWords(ocrDocument).map((word): [number, number] => [word.start, word.end])
+    : [];
+
+  // Compose umlauts, fold ligatures and look-alike characters
+  text = normalizeUnicode(text);
 
   // Apply corrections
   text = applyCorrections(text);
 
+  // Join hyphenated words and wrapped paragraph lines
+  text = reflowText(text);
+
   // Fix currency formatting
   text = fixCurrencyAmounts(text);
 
+  // Fix misread words (after the amounts, which it must not touch)
+  text = correctOcrWords(text, lowConfidence);
+
   // Clean whitespace
   text = normalizeWhitespace(text);
 
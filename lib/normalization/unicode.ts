@@ -0,0 +1,110 @@
+/**
+ * Unicode normalization of OCR and PDF text.
+ *
+ * PDF text layers often carry decomposed umlauts (a + combining diaeresis),
+ * typographic ligatures and compatibility characters; OCR output mixes in
+ * look-alike letters from other scripts. All of them read fine but break
+ * plain string matching ("pfändung".indexOf), so they are folded to the
+ * characters the keyword lists and patterns use.
+ */
+
+import { MappedText, mappedReplace } from "./offsets";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Ligatures and historic letter forms */
+const LIGATURES: Record<string, string> = {
+  "ﬀ": "ff",
+  "ﬁ": "fi",
+  "ﬂ": "fl",
+  "ﬃ": "ffi",
+  "ﬄ": "ffl",
+  "ﬅ": "st",
+  "ﬆ": "st",
+  "ſ": "s",
+  "Ĳ": "IJ",
+  "ĳ": "ij",
+};
+
+/** Spaces, quotes and hyphens folded to their ASCII form */
+const COMPATIBILITY: Record<string, string> = {
+  "\u00A0": " ",  // No-break space
+  "\u2002": " ",  // En space
+  "\u2003": " ",  // Em space
+  "\u2007": " ",  // Figure space
+  "\u2009": " ",  // Thin space
+  "\u202F": " ",  // Narrow no-break space, used as thousands separator
+  "„": "\"",
+  "“": "\"",
+  "”": "\"",
+  "«": "\"",
+  "»": "\"",
+  "‚": "'",
+  "‘": "'",
+  "’": "'",
+  "‹": "'",
+  "›": "'",
+  "\u2010": "-",  // Hyphen
+  "\u2011": "-",  // Non-breaking hyphen
+  "\u2012": "-",  // Figure dash
+  "\u2212": "-",  // Minus sign
+  "\u2024": ".",  // One dot leader
+  "…": "...",
+};
+
+/** Characters dropped entirely: zero-width characters and the byte order mark */
+const INVISIBLE_PATTERN = /[\u200B-\u200D\u2060\uFEFF]/g;
+
+/** Fullwidth ASCII (U+FF01-U+FF5E) from CJK-aware OCR engines */
+const FULLWIDTH_PATTERN = /[\uFF01-\uFF5E]/g;
+const FULLWIDTH_OFFSET = 0xFEE0;
+
+/** Cyrillic and Greek capitals and small letters that look like Latin ones */
+const LOOK_ALIKES: Record<string, string> = {
+  // Cyrillic
+  "А": "A", "В": "B", "Е": "E", "К": "K", "М": "M", "Н": "H", "О": "O",
+  "Р": "P", "С": "C", "Т": "T", "Х": "X", "І": "I", "Ј": "J", "Ѕ": "S",
+  "а": "a", "е": "e", "о": "o", "р": "p", "с": "c", "у": "y", "х": "x",
+  "і": "i", "ј": "j", "ѕ": "s",
+  // Greek
+  "Α": "A", "Β": "B", "Ε": "E", "Ζ": "Z", "Η": "H", "Ι": "I", "Κ": "K",
+  "Μ": "M", "Ν": "N", "Ο": "O", "Ρ": "P", "Τ": "T", "Υ": "Y", "Χ": "X",
+  "ο": "o", "ν": "v",
+  // Latin letters from other alphabets
+  "ǀ": "l",
+};
+
+/** Spacing diaeresis OCR puts after the vowel instead of combining it: "a¨" */
+const SPACING_DIAERESIS_PATTERN = /([aouAOU])¨/g;
+
+/** Letter followed by combining marks (decomposed umlaut from a PDF) */
+const COMBINING_SEQUENCE_PATTERN = /[^\u0300-\u036F][\u0300-\u036F]+/g;
+
+/** Pattern matching any single character of a folding table */
+function characterClass(table: Record<string, string>): RegExp {
+  return new RegExp(`[${Object.keys(table).join("")}]`, "g");
+}
+
+const LIGATURE_PATTERN = characterClass(LIGATURES);
+const COMPATIBILITY_PATTERN = characterClass(COMPATIBILITY);
+const LOOK_ALIKE_PATTERN = characterClass(LOOK_ALIKES);
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Compose umlauts (NFC) and fold ligatures, compatibility characters and
+ * look-alike letters.
+ */
+export function normalizeUnicode(input: MappedText): MappedText {
+  let result = mappedReplace(input, SPACING_DIAERESIS_PATTERN, (_, [vowel]) => `${vowel}\u0308`.normalize("NFC"), "umlaut");
+  result = mappedReplace(result, COMBINING_SEQUENCE_PATTERN, (sequence) => sequence.normalize("NFC"), "umlaut");
+  result = mappedReplace(result, INVISIBLE_PATTERN, "", "invisible");
+  result = mappedReplace(result, FULLWIDTH_PATTERN, (char) => String.fromCharCode(char.charCodeAt(0) - FULLWIDTH_OFFSET), "fullwidth");
+  result = mappedReplace(result, LIGATURE_PATTERN, (char) => LIGATURES[char], "ligature");
+  result = mappedReplace(result, COMPATIBILITY_PATTERN, (char) => COMPATIBILITY[char], "typography");
+  return mappedReplace(result, LOOK_ALIKE_PATTERN, (char) => LOOK_ALIKES[char], "look-alike");
+}
@@ -0,0 +1,121 @@
+/**
+ * Offline German word list for OCR correction.
+ *
+ * Covers the most frequent German words and the vocabulary of official
+ * letters, bills and reminders, in their common inflected forms. Scoring
+ * keywords are added in ./spelling. Words missing here are simply never
+ * corrected, so the list errs on the side of letter vocabulary rather
+ * than size.
+ */
+
+/** Lowercase words, grouped by topic */
+const WORD_GROUPS: string[] = [
+  // Articles, pronouns, prepositions, conjunctions
+  `der die das den dem des ein eine einen einem einer eines kein keine keinen keinem keiner keines
+   ich du er sie es wir ihr mich mir dich dir ihn ihm ihnen uns euch sich
+   mein meine meinen meinem meiner meines dein deine sein seine seinen seinem seiner seines
+   unser unsere unseren unserem unserer unseres euer eure ihre ihren ihrem ihrer ihres
+   dieser diese dieses diesen diesem jener jene jenes welcher welche welches welchen welchem
+   alle allen aller alles jede jeder jedes jeden jedem man etwas nichts jemand niemand
+   und oder aber sondern denn doch sowie bzw als wie wenn falls ob dass damit weil da obwohl
+   sofern soweit sobald solange bevor nachdem während bis seit indem ohne
+   an am auf aus bei beim mit nach von vom vor zu zum zur über unter neben zwischen hinter
+   durch für gegen um ab innerhalb außerhalb binnen gemäß laut wegen trotz statt anstatt
+   bezüglich hinsichtlich zuzüglich abzüglich einschließlich inklusive exklusive pro je`,
+
+  // Auxiliaries, modal and common verbs
+  `sein bin bist ist sind seid war waren wäre wären gewesen haben habe hast hat habt hatte
+   hatten hätte hätten gehabt werden werde wirst wird werdet wurde wurden würde würden worden
+   können kann kannst könnt konnte konnten könnte könnten müssen muss musst müsst musste
+   mussten müsste müssten sollen soll sollst sollt sollte sollten dürfen darf darfst durfte
+   dürfte wollen will willst wollte möchten möchte mögen
+   machen macht gemacht geben gibt gab gegeben nehmen nimmt genommen kommen kommt gekommen
+   gehen geht gegangen stehen steht gestanden lassen lässt gelassen bitten bitte bitten gebeten
+   zahlen zahlt gezahlt bezahlen bezahlt überweisen überweist überwiesen begleichen beglichen
+   erhalten erhält erhielten senden sendet gesendet schicken schickt geschickt teilen teilt
+   mitteilen mitgeteilt beachten beachtet prüfen prüft geprüft wenden wendet gewandt
+   melden meldet gemeldet erreichen erreicht fordern fordert gefordert auffordern aufgefordert
+   entstehen entstanden entstehen berechnen berechnet erheben erhoben festsetzen festgesetzt
+   einlegen eingelegt erheben vorlegen vorgelegt beantragen beantragt bewilligen bewilligt
+   gewähren gewährt stunden gestundet vollstrecken vollstreckt pfänden gepfändet
+   widersprechen widersprochen einreichen eingereicht zustellen zugestellt bekanntgeben
+   bekanntgegeben ergeben ergibt enthalten enthält betragen beträgt bestehen besteht
+   erfolgen erfolgt vermeiden vermieden bestätigen bestätigt verwenden verwendet
+   angeben angegeben ausgleichen ausgeglichen nachweisen nachgewiesen mahnen gemahnt`,
+
+  // Adjectives and adverbs
+  `nicht noch nur auch schon sehr so dann danach dazu daher darum dabei daran darauf darüber
+   hier dort hiermit hierzu hierfür hiervon bereits bisher weiterhin ebenfalls insbesondere
+   jedoch jedenfalls sonst somit also nun jetzt heute morgen sofort umgehend unverzüglich
+   spätestens frühestens mindestens höchstens insgesamt zusammen jeweils monatlich jährlich
+   vierteljährlich wöchentlich täglich einmalig fristgerecht rechtzeitig verspätet
+   offen offene offenen offener fällig fällige fälligen fälliger rückständig rückständige
+   rückständigen vollständig vollständige vollständigen schriftlich schriftliche elektronisch
+   mündlich persönlich gerichtlich gerichtliche gerichtlichen außergerichtlich außergerichtliche
+   zuständig zuständige zuständigen freundlich freundlichen geehrte geehrter geehrten
+   letzte letzten letzter erste ersten erster zweite zweiten dritte dritten weitere weiteren
+   neue neuen neuer alte alten gesamte gesamten folgende folgenden genannte genannten
+   oben unten gut neu groß klein lang kurz hoch gering möglich möglichen erforderlich
+   erforderliche notwendig notwendige bekannt unbekannt gültig ungültig richtig falsch`,
+
+  // Greetings and letter structure
+  `sehr damen herren frau herr herrn grüßen grüße hochachtungsvoll auftrag vertretung
+   betreff bezug anlage anlagen seite datum telefon telefax fax mail internet postfach
+   straße str hausnummer postleitzahl ort sprechzeiten öffnungszeiten zimmer ansprechpartner
+   sachbearbeiter sachbearbeiterin durchwahl aktenzeichen geschäftszeichen zeichen nummer
+   kundennummer rechnungsnummer vertragsnummer mitgliedsnummer kassenzeichen steuernummer
+   beitragsnummer identifikationsnummer schreiben schreibens brief briefes mitteilung
+   nachricht hinweis hinweise hinweisen information informationen`,
+
+  // Money and payment
+  `betrag beträge betrages beträgen gesamtbetrag rechnungsbetrag restbetrag teilbetrag
+   summe gesamtsumme zahlung zahlungen zahlungseingang zahlungserinnerung zahlungsaufforderung
+   zahlungsfrist zahlungsziel zahlungsverzug überweisung überweisungen lastschrift
+   lastschriftverfahren dauerauftrag bankverbindung konto kontos kontoinhaber iban bic bank
+   sparkasse volksbank verwendungszweck empfänger rechnung rechnungen gutschrift erstattung
+   rückerstattung guthaben kosten gebühr gebühren mahngebühr mahngebühren auslagen
+   nebenforderung nebenforderungen hauptforderung forderung forderungen zinsen verzugszinsen
+   zins zinssatz basiszinssatz säumniszuschlag säumniszuschläge zuschlag zuschläge
+   inkassokosten inkasso euro cent netto brutto mehrwertsteuer umsatzsteuer rate raten
+   ratenzahlung ratenzahlungen monatsrate teilzahlung stundung zahlbar fälligkeit
+   fälligkeitsdatum eingang eingegangen ausgeglichen offenstehend`,
+
+  // Authorities, courts and procedures
+  `amt amtes behörde behörden finanzamt finanzamtes hauptzollamt jobcenter agentur arbeit
+   familienkasse rentenversicherung krankenkasse krankenversicherung pflegeversicherung
+   beitragsservice rundfunkbeitrag rundfunkbeiträge stadt stadtkasse gemeinde gemeindekasse
+   landratsamt landkreis kreis bezirk bundeskasse landeskasse kasse gericht gerichts
+   verwaltung stadtverwaltung kreisverwaltung
+   amtsgericht landgericht sozialgericht verwaltungsgericht finanzgericht mahngericht
+   gerichtsvollzieher gerichtsvollzieherin vollstreckung vollstreckungsbescheid
+   vollstreckungsbehörde vollstreckungsstelle pfändung pfändungen kontopfändung lohnpfändung
+   bescheid bescheide bescheides bescheids steuerbescheid bußgeldbescheid leistungsbescheid
+   festsetzung festsetzungen mahnung mahnungen mahnbescheid verwarnung verwarnungsgeld
+   bußgeld bußgeldstelle ordnungswidrigkeit anhörung anhörungsbogen verfahren verfahrens
+   antrag anträge widerspruch widerspruchs einspruch einspruchs klage beschwerde
+   rechtsbehelf rechtsbehelfsbelehrung rechtsmittel frist fristen fristablauf bekanntgabe
+   zustellung zugang erhalt entscheidung verfügung anordnung aufforderung ankündigung
+   vereinbarung bewilligung genehmigung ablehnung abhilfe aussetzung vollziehung
+   niederschrift unterschrift signatur steuer steuern einkommensteuer grundsteuer
+   gewerbesteuer kraftfahrzeugsteuer hundesteuer abgabe abgaben beitrag beiträge
+   leistungen leistung bürgergeld arbeitslosengeld kindergeld wohngeld elterngeld rente
+   erstattungsanspruch rückforderung überzahlung aufrechnung verrechnung`,
+
+  // Common nouns in letters
+  `jahr jahre jahren monat monate monaten woche wochen tag tage tagen werktag werktage
+   werktagen zeitraum zeitraums stichtag termin termine uhrzeit januar februar märz april
+   mai juni juli august september oktober november dezember montag dienstag mittwoch
+   donnerstag freitag samstag sonntag
+   person personen name namen vorname nachname geburtsdatum anschrift adresse wohnort
+   wohnung wohnungen miete mieter vermieter
+   fahrzeug kennzeichen halter tatzeit tatort geschwindigkeit
+   grund gründe folge folgen fall fälle falle angabe angaben unterlagen nachweis nachweise
+   kopie kopien original vertrag verträge vertrags kunde kunden mitglied mitglieder
+   verbraucher verbraucherzentrale schuldner schuldnerin gläubiger gläubigerin
+   schuldnerberatung beratung rechtsanwalt rechtsanwältin anwalt kanzlei
+   recht rechte pflicht pflichten gesetz gesetzes paragraph absatz satz nummer
+   möglichkeit möglichkeiten fragen frage rückfragen verständnis dank`,
+];
+
+/** All words of the list */
+export const GERMAN_WORDS: string[] = WORD_GROUPS.join(" ").split(/\s+/).filter(Boolean);
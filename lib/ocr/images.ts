@@ -0,0 +1,78 @@
+/**
+ * Browser image handling around preprocessing: decoding images to pixels,
+ * running the steps in a web worker and handing the result to Tesseract.
+ */
+
+import { PreprocessingSteps } from "@/types";
+import { PreprocessingResult, preprocessImageData } from "./preprocess";
+import type { PreprocessRequest } from "./preprocess.worker";
+
+/** Longest image side processed; about A4 at 300 dpi, larger photos are scaled down */
+const MAX_IMAGE_SIZE = 3500;
+
+/** Decoded image and the factor it was scaled by */
+export interface LoadedImage {
+  image: ImageData;
+  scale: number;
+}
+
+/**
+ * Decode an image file, blob or URL into pixels.
+ */
+export async function loadImageData(image: File | Blob | string): Promise<LoadedImage> {
+  const blob = typeof image === "string" ? await (await fetch(image)).blob() : image;
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas wird nicht unterstützt");
+
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return { image: context.getImageData(0, 0, canvas.width, canvas.height), scale };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Put pixels on a canvas, which Tesseract reads directly.
+ */
+export function toCanvas(image: ImageData): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext("2d")?.putImageData(image, 0, 0);
+  return canvas;
+}
+
+/**
+ * Run the preprocessing steps in a web worker, or on the main thread where
+ * workers are unavailable or fail.
+ */
+export function runPreprocessing(image: ImageData, steps: PreprocessingSteps): Promise<PreprocessingResult> {
+  if (typeof Worker === "undefined") {
+    return Promise.resolve(preprocessImageData(image, steps));
+  }
+
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL("./preprocess.worker.ts", import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<PreprocessingResult>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (error) => {
+      console.warn("[OCR] Preprocessing worker failed, running on main thread:", error.message);
+      worker.terminate();
+      resolve(preprocessImageData(image, steps));
+    };
+
+    const request: PreprocessRequest = { image, steps };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,259 @@
+/**
+ * Layout model of Tesseract results.
+ *
+ * Tesseract segments the page into blocks but returns them in the order it
+ * found them, which on letters with an information block next to the
+ * address field, or a sidebar next to the body, can mix the columns. The
+ * blocks are put into reading order by recursive XY-cut: the page is split
+ * at an empty band between blocks (top before bottom, left before right)
+ * until no band is left.
+ */
+
+import type Tesseract from "tesseract.js";
+import { BoundingBox, OcrBlock, OcrDocument, OcrLine, OcrPage, OcrParagraph, OcrWord } from "@/types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const WORD_SEPARATOR = " ";
+const LINE_SEPARATOR = "\n";
+
+/** Between paragraphs, blocks and pages, as in Tesseract's own text output */
+const PARAGRAPH_SEPARATOR = "\n\n";
+
+/**
+ * Share of the height both sides of a vertical band must cover to be read
+ * as columns. An information block beside the address field covers only
+ * the top of the page and is read before the body, not beside it.
+ */
+const COLUMN_COVERAGE = 0.5;
+
+/** Words Tesseract rates below this (0-1) are treated as possibly misread */
+export const LOW_CONFIDENCE = 0.6;
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+function toBoundingBox({ x0, y0, x1, y1 }: Tesseract.Bbox): BoundingBox {
+  return { x0, y0, x1, y1 };
+}
+
+/** Tesseract confidence (0-100) as 0-1 */
+function toConfidence(value: number): number {
+  return Math.min(1, Math.max(0, value / 100));
+}
+
+function toWord(word: Tesseract.Word): OcrWord {
+  return {
+    text: word.text,
+    bbox: toBoundingBox(word.bbox),
+    confidence: toConfidence(word.confidence),
+    // Set once the document text is built
+    start: -1,
+    end: -1,
+  };
+}
+
+function toLine(line: Tesseract.Line): OcrLine {
+  return {
+    words: line.words.filter((word) => word.text.trim().length > 0).map(toWord),
+    bbox: toBoundingBox(line.bbox),
+    confidence: toConfidence(line.confidence),
+  };
+}
+
+function toParagraph(paragraph: Tesseract.Paragraph): OcrParagraph {
+  return {
+    lines: paragraph.lines.map(toLine).filter((line) => line.words.length > 0),
+    bbox: toBoundingBox(paragraph.bbox),
+    confidence: toConfidence(paragraph.confidence),
+  };
+}
+
+function toBlock(block: Tesseract.Block): OcrBlock {
+  return {
+    paragraphs: block.paragraphs.map(toParagraph).filter((paragraph) => paragraph.lines.length > 0),
+    bbox: toBoundingBox(block.bbox),
+    confidence: toConfidence(block.confidence),
+  };
+}
+
+// ============================================================================
+// READING ORDER
+// ============================================================================
+
+/** Empty band between blocks: where it runs and how wide it is */
+interface Gap {
+  position: number;
+  width: number;
+}
+
+/**
+ * Widest band along one axis that no block covers ("y": a horizontal band
+ * separating top from bottom, "x": a vertical one separating columns).
+ */
+function findWidestGap(blocks: OcrBlock[], axis: "x" | "y"): Gap | null {
+  const ranges = blocks
+    .map(({ bbox }) => (axis === "y" ? [bbox.y0, bbox.y1] : [bbox.x0, bbox.x1]))
+    .sort((a, b) => a[0] - b[0]);
+
+  let widest: Gap | null = null;
+  let reach = ranges[0][1];
+
+  for (const [start, end] of ranges.slice(1)) {
+    if (start > reach && (!widest || start - reach > widest.width)) {
+      widest = { position: start, width: start - reach };
+    }
+    reach = Math.max(reach, end);
+  }
+
+  return widest;
+}
+
+/**
+ * Blocks before and after a band.
+ */
+function splitAt(blocks: OcrBlock[], axis: "x" | "y", gap: Gap): [OcrBlock[], OcrBlock[]] {
+  const isBefore = (block: OcrBlock) => (axis === "y" ? block.bbox.y0 : block.bbox.x0) < gap.position;
+  return [blocks.filter(isBefore), blocks.filter((block) => !isBefore(block))];
+}
+
+function height(blocks: OcrBlock[]): number {
+  return Math.max(...blocks.map((block) => block.bbox.y1)) - Math.min(...blocks.map((block) => block.bbox.y0));
+}
+
+/**
+ * Blocks in reading order by recursive XY-cut. Columns that run along the
+ * blocks are split first, so that two columns stay apart even where both
+ * happen to have a gap at the same height; otherwise the blocks are split
+ * into rows at the widest horizontal band.
+ */
+export function orderBlocks(blocks: OcrBlock[]): OcrBlock[] {
+  if (blocks.length <= 1) return blocks;
+
+  const rowGap = findWidestGap(blocks, "y");
+  const columnGap = findWidestGap(blocks, "x");
+  const columns = columnGap && splitAt(blocks, "x", columnGap);
+  const isColumnLayout = columns !== null &&
+    columns.every((side) => height(side) >= COLUMN_COVERAGE * height(blocks));
+
+  const parts = columns && (isColumnLayout || !rowGap)
+    ? columns
+    : rowGap && splitAt(blocks, "y", rowGap);
+
+  if (!parts) {
+    // Overlapping blocks: top to bottom, then left to right
+    return [...blocks].sort((a, b) => a.bbox.y0 - b.bbox.y0 || a.bbox.x0 - b.bbox.x0);
+  }
+
+  return parts.flatMap(orderBlocks);
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/**
+ * Convert a Tesseract page into the layout model, blocks in reading order.
+ */
+export function buildOcrPage(page: Tesseract.Page, index: number): OcrPage {
+  const blocks = (page.blocks ?? [])
+    .map(toBlock)
+    .filter((block) => block.paragraphs.length > 0);
+
+  return {
+    index,
+    blocks: orderBlocks(blocks),
+    confidence: toConfidence(page.confidence),
+  };
+}
+
+/**
+ * The page with every box passed through map, e.g. back onto the uploaded
+ * image after preprocessing. The reading order is kept.
+ */
+export function mapPageBoxes(page: OcrPage, map: (box: BoundingBox) => BoundingBox): OcrPage {
+  return {
+    ...page,
+    blocks: page.blocks.map((block) => ({
+      ...block,
+      bbox: map(block.bbox),
+      paragraphs: block.paragraphs.map((paragraph) => ({
+        ...paragraph,
+        bbox: map(paragraph.bbox),
+        lines: paragraph.lines.map((line) => ({
+          ...line,
+          bbox: map(line.bbox),
+          words: line.words.map((word) => ({ ...word, bbox: map(word.bbox) })),
+        })),
+      })),
+    })),
+  };
+}
+
+/**
+ * All words of a page, in reading order.
+ */
+export function getPageWords(page: OcrPage): OcrWord[] {
+  return page.blocks.flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) => paragraph.lines.flatMap((line) => line.words))
+  );
+}
+
+/**
+ * Words rated below LOW_CONFIDENCE, in reading order.
+ */
+export function getLowConfidenceWords(document: OcrDocument): OcrWord[] {
+  return document.pages.flatMap(getPageWords).filter((word) => word.confidence < LOW_CONFIDENCE);
+}
+
+/**
+ * Build the document text from the pages and set the offsets of each word
+ * in it. Words are separated by spaces, lines by line breaks and
+ * paragraphs, blocks and pages by blank lines.
+ */
+export function createOcrDocument(pages: OcrPage[]): OcrDocument {
+  const parts: string[] = [];
+  let position = 0;
+
+  const write = (part: string) => {
+    parts.push(part);
+    position += part.length;
+  };
+
+  for (const page of pages) {
+    for (const paragraph of page.blocks.flatMap((block) => block.paragraphs)) {
+      if (position > 0) write(PARAGRAPH_SEPARATOR);
+
+      paragraph.lines.forEach((line, lineIndex) => {
+        if (lineIndex > 0) write(LINE_SEPARATOR);
+
+        line.words.forEach((word, wordIndex) => {
+          if (wordIndex > 0) write(WORD_SEPARATOR);
+          word.start = position;
+          write(word.text);
+          word.end = position;
+        });
+      });
+    }
+  }
+
+  const words = pages.flatMap(getPageWords);
+  const confidence = words.length > 0
+    ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+    : 0;
+
+  return { pages, text: parts.join(""), confidence };
+}
+
+/**
+ * Words overlapping a range of the document text, e.g. a keyword or an
+ * amount projected back onto the raw text.
+ */
+export function getWordsInRange(document: OcrDocument, start: number, end: number): OcrWord[] {
+  return document.pages
+    .flatMap(getPageWords)
+    .filter((word) => word.start < end && word.end > start);
+}
@@ -0,0 +1,578 @@
+/**
+ * Image preprocessing before OCR.
+ *
+ * Photos of letters come with shadows, uneven kitchen lighting, a tilted
+ * page and the table around it, and Tesseract reads them far worse than a
+ * clean scan. The steps here turn such an image into a straight, cropped,
+ * black-and-white page. They work on plain pixel arrays without the DOM,
+ * so they run in a web worker (./preprocess.worker) as well as on the
+ * main thread.
+ */
+
+import { BinarizationMethod, BoundingBox, ImageTransform, PreprocessingSettings, PreprocessingSteps } from "@/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Grayscale image, one byte per pixel, row by row */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/** Processed image and where it sits in the input image (scale 1) */
+export interface PreprocessingResult {
+  image: ImageData;
+  transform: ImageTransform;
+}
+
+/** Rectangle of an image, in pixels */
+interface Bounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Steps to try on an image, with a label for the UI */
+export interface PreprocessingVariant {
+  label: string;
+  steps: PreprocessingSteps;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Used until the user changes the preprocessing settings */
+export const DEFAULT_PREPROCESSING: PreprocessingSettings = {
+  grayscale: true,
+  contrast: true,
+  crop: true,
+  binarization: "auto",
+  deskew: true,
+  denoise: true,
+  compareOriginal: true,
+};
+
+/** German labels for binarization methods */
+export const BINARIZATION_LABELS: Record<BinarizationMethod, string> = {
+  sauvola: "Sauvola (lokal, für Fotos)",
+  otsu: "Otsu (global, für Scans)",
+};
+
+const NO_STEPS: PreprocessingSteps = {
+  grayscale: false,
+  contrast: false,
+  crop: false,
+  binarization: null,
+  deskew: false,
+  denoise: false,
+};
+
+const WHITE = 255;
+const BLACK = 0;
+
+/** Pixels darker than this count as ink (or border) */
+const DARK_THRESHOLD = 128;
+
+/** Share of pixels ignored at each end of the histogram when stretching contrast */
+const CONTRAST_CLIP = 0.01;
+
+/** Sauvola: window as share of the shorter side, sensitivity k and dynamic range R */
+const SAUVOLA_WINDOW_RATIO = 1 / 40;
+const SAUVOLA_MIN_WINDOW = 15;
+const SAUVOLA_K = 0.34;
+const SAUVOLA_R = 128;
+
+/** Sauvola statistics are gathered per cell of this many pixels square */
+const SAUVOLA_CELL = 4;
+
+/** Deskew: largest angle searched, search steps and smallest angle corrected, in degrees */
+const MAX_SKEW = 5;
+const COARSE_SKEW_STEP = 0.5;
+const FINE_SKEW_STEP = 0.1;
+const MIN_SKEW = 0.2;
+
+/** Every n-th pixel in each direction is sampled to estimate the skew */
+const SKEW_SAMPLE_STEP = 2;
+
+/** Edge rows and columns darker than this share are border, not paper */
+const BORDER_DARK_RATIO = 0.5;
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Luminance of each pixel, transparent areas as white paper.
+ */
+export function toGrayImage(image: ImageData): GrayImage {
+  const { width, height, data } = image;
+  const gray = new Uint8ClampedArray(width * height);
+
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    const alpha = data[p + 3] / 255;
+    const luminance = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    gray[i] = luminance * alpha + WHITE * (1 - alpha);
+  }
+
+  return { width, height, data: gray };
+}
+
+export function toImageData(image: GrayImage): ImageData {
+  const rgba = new Uint8ClampedArray(image.width * image.height * 4);
+
+  for (let i = 0, p = 0; i < image.data.length; i++, p += 4) {
+    rgba[p] = rgba[p + 1] = rgba[p + 2] = image.data[i];
+    rgba[p + 3] = 255;
+  }
+
+  return new ImageData(rgba, image.width, image.height);
+}
+
+function createGrayImage(width: number, height: number, fill = WHITE): GrayImage {
+  return { width, height, data: new Uint8ClampedArray(width * height).fill(fill) };
+}
+
+function histogram(image: GrayImage): number[] {
+  const counts = new Array<number>(256).fill(0);
+  for (const value of image.data) counts[value]++;
+  return counts;
+}
+
+// ============================================================================
+// CONTRAST AND BINARIZATION
+// ============================================================================
+
+/**
+ * Stretch the gray values so that the darkest ink is black and the
+ * brightest paper white, ignoring a few outliers at either end.
+ */
+export function normalizeContrast(image: GrayImage): GrayImage {
+  const counts = histogram(image);
+  const clip = image.data.length * CONTRAST_CLIP;
+
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + counts[low] <= clip; low++) seen += counts[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + counts[high] <= clip; high--) seen += counts[high];
+
+  if (high - low < 1) return image;
+
+  const scale = 255 / (high - low);
+  return { ...image, data: image.data.map((value) => (value - low) * scale) };
+}
+
+/**
+ * Threshold separating ink from paper that maximises the variance between
+ * the two classes (Otsu, 1979).
+ */
+export function otsuThreshold(image: GrayImage): number {
+  const counts = histogram(image);
+  const total = image.data.length;
+  const sumAll = counts.reduce((sum, count, value) => sum + count * value, 0);
+
+  let sumBelow = 0;
+  let countBelow = 0;
+  let bestThreshold = DARK_THRESHOLD;
+  let bestVariance = -1;
+
+  for (let threshold = 0; threshold < 256; threshold++) {
+    countBelow += counts[threshold];
+    sumBelow += counts[threshold] * threshold;
+    const countAbove = total - countBelow;
+    if (countBelow === 0 || countAbove === 0) continue;
+
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = threshold;
+    }
+  }
+
+  return bestThreshold;
+}
+
+/**
+ * Black and white with one threshold for the whole page.
+ */
+export function binarizeOtsu(image: GrayImage): GrayImage {
+  const threshold = otsuThreshold(image);
+  return { ...image, data: image.data.map((value) => (value > threshold ? WHITE : BLACK)) };
+}
+
+/**
+ * Black and white with a threshold from the mean and spread of the gray
+ * values around each pixel (Sauvola and Pietikäinen, 2000), so that a
+ * shadow over half the page does not turn it black. Mean and spread are
+ * computed per cell of SAUVOLA_CELL pixels from summed-area tables.
+ */
+export function binarizeSauvola(image: GrayImage): GrayImage {
+  const { width, height, data } = image;
+  const cols = Math.ceil(width / SAUVOLA_CELL);
+  const rows = Math.ceil(height / SAUVOLA_CELL);
+  const stride = cols + 1;
+
+  // Summed-area tables of count, sum and squared sum over the cells
+  const count = new Float64Array(stride * (rows + 1));
+  const sum = new Float64Array(stride * (rows + 1));
+  const sumSq = new Float64Array(stride * (rows + 1));
+
+  for (let y = 0; y < height; y++) {
+    const cell = (Math.floor(y / SAUVOLA_CELL) + 1) * stride + 1;
+    for (let x = 0; x < width; x++) {
+      const value = data[y * width + x];
+      const index = cell + Math.floor(x / SAUVOLA_CELL);
+      count[index]++;
+      sum[index] += value;
+      sumSq[index] += value * value;
+    }
+  }
+  for (const table of [count, sum, sumSq]) {
+    for (let row = 1; row <= rows; row++) {
+      for (let col = 1; col <= cols; col++) {
+        const i = row * stride + col;
+        table[i] += table[i - 1] + table[i - stride] - table[i - stride - 1];
+      }
+    }
+  }
+
+  const window = Math.max(SAUVOLA_MIN_WINDOW, Math.round(Math.min(width, height) * SAUVOLA_WINDOW_RATIO));
+  const radius = Math.max(1, Math.round(window / SAUVOLA_CELL / 2));
+  const thresholds = new Float64Array(cols * rows);
+
+  for (let row = 0; row < rows; row++) {
+    const top = Math.max(0, row - radius);
+    const bottom = Math.min(rows, row + radius + 1);
+    for (let col = 0; col < cols; col++) {
+      const left = Math.max(0, col - radius);
+      const right = Math.min(cols, col + radius + 1);
+      const area = (table: Float64Array) =>
+        table[bottom * stride + right] - table[top * stride + right] -
+        table[bottom * stride + left] + table[top * stride + left];
+
+      const n = area(count);
+      const mean = area(sum) / n;
+      const deviation = Math.sqrt(Math.max(0, area(sumSq) / n - mean * mean));
+      thresholds[row * cols + col] = mean * (1 + SAUVOLA_K * (deviation / SAUVOLA_R - 1));
+    }
+  }
+
+  const result = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    const rowOffset = Math.floor(y / SAUVOLA_CELL) * cols;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      result[i] = data[i] > thresholds[rowOffset + Math.floor(x / SAUVOLA_CELL)] ? WHITE : BLACK;
+    }
+  }
+
+  return { ...image, data: result };
+}
+
+// ============================================================================
+// DESKEW
+// ============================================================================
+
+/**
+ * Angle of the text lines in degrees (positive: falling to the right).
+ * Dark pixels are projected onto rows sheared by each candidate angle;
+ * the angle at which the rows are most uneven (lines and gaps, not a
+ * smear) is the one the lines run at.
+ */
+export function estimateSkew(image: GrayImage): number {
+  const { width, height, data } = image;
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (let y = 0; y < height; y += SKEW_SAMPLE_STEP) {
+    for (let x = 0; x < width; x += SKEW_SAMPLE_STEP) {
+      if (data[y * width + x] < DARK_THRESHOLD) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length === 0) return 0;
+
+  const margin = Math.ceil(width * Math.tan((MAX_SKEW * Math.PI) / 180));
+  const rowCounts = new Int32Array(height + 2 * margin + 1);
+
+  const score = (angle: number): number => {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    rowCounts.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      rowCounts[Math.round(ys[i] - xs[i] * slope) + margin]++;
+    }
+    let total = 0;
+    for (const rowCount of rowCounts) total += rowCount * rowCount;
+    return total;
+  };
+
+  const search = (from: number, to: number, step: number, best: number): number => {
+    let bestScore = score(best);
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const angleScore = score(angle);
+      if (angleScore > bestScore) {
+        bestScore = angleScore;
+        best = angle;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, COARSE_SKEW_STEP, 0);
+  return search(coarse - COARSE_SKEW_STEP, coarse + COARSE_SKEW_STEP, FINE_SKEW_STEP, coarse);
+}
+
+/**
+ * Rotate by the given angle around the centre, filling with paper white.
+ */
+export function rotate(image: GrayImage, degrees: number): GrayImage {
+  const { width, height, data } = image;
+  const result = createGrayImage(width, height);
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const cx = width / 2;
+  const cy = height / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - cx;
+      const dy = y - cy;
+      const sx = Math.round(cos * dx - sin * dy + cx);
+      const sy = Math.round(sin * dx + cos * dy + cy);
+      if (sx >= 0 && sx < width && sy >= 0 && sy < height) {
+        result.data[y * width + x] = data[sy * width + sx];
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Angle to rotate by to straighten the text lines; 0 below MIN_SKEW.
+ */
+function findDeskewAngle(image: GrayImage): number {
+  const skew = estimateSkew(image);
+  return Math.abs(skew) < MIN_SKEW ? 0 : skew;
+}
+
+/**
+ * Straighten text lines that run at an angle.
+ */
+export function deskew(image: GrayImage): GrayImage {
+  const angle = findDeskewAngle(image);
+  return angle === 0 ? image : rotate(image, angle);
+}
+
+// ============================================================================
+// DENOISING AND CROPPING
+// ============================================================================
+
+/**
+ * Median of each pixel's 3x3 neighbourhood, for grayscale images.
+ */
+export function medianFilter(image: GrayImage): GrayImage {
+  const { width, height, data } = image;
+  const result = new Uint8ClampedArray(data);
+  const window = new Array<number>(9);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) window[n++] = data[(y + dy) * width + x + dx];
+      }
+      window.sort((a, b) => a - b);
+      result[y * width + x] = window[4];
+    }
+  }
+
+  return { ...image, data: result };
+}
+
+/**
+ * Remove dark specks with at most one dark neighbour, for black-and-white
+ * images. Strokes of letters always have more.
+ */
+export function removeSpeckles(image: GrayImage): GrayImage {
+  const { width, height, data } = image;
+  const result = new Uint8ClampedArray(data);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (data[i] !== BLACK) continue;
+
+      let darkNeighbours = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx !== 0 || dy !== 0) && data[i + dy * width + dx] === BLACK) darkNeighbours++;
+        }
+      }
+      if (darkNeighbours <= 1) result[i] = WHITE;
+    }
+  }
+
+  return { ...image, data: result };
+}
+
+/**
+ * Part of the image inside the dark rows and columns at the edges.
+ */
+function findContentBounds(image: GrayImage): Bounds {
+  const { width, height, data } = image;
+
+  const darkShare = (start: number, count: number, step: number): number => {
+    let dark = 0;
+    for (let i = 0; i < count; i++) {
+      if (data[start + i * step] < DARK_THRESHOLD) dark++;
+    }
+    return dark / count;
+  };
+
+  let top = 0;
+  while (top < height - 1 && darkShare(top * width, width, 1) > BORDER_DARK_RATIO) top++;
+  let bottom = height - 1;
+  while (bottom > top && darkShare(bottom * width, width, 1) > BORDER_DARK_RATIO) bottom--;
+
+  const rows = bottom - top + 1;
+  let left = 0;
+  while (left < width - 1 && darkShare(top * width + left, rows, width) > BORDER_DARK_RATIO) left++;
+  let right = width - 1;
+  while (right > left && darkShare(top * width + right, rows, width) > BORDER_DARK_RATIO) right--;
+
+  return { left, top, width: right - left + 1, height: rows };
+}
+
+/**
+ * Cut an image down to the given bounds.
+ */
+function crop(image: GrayImage, bounds: Bounds): GrayImage {
+  if (bounds.width === image.width && bounds.height === image.height) return image;
+
+  const cropped = createGrayImage(bounds.width, bounds.height);
+  for (let y = 0; y < bounds.height; y++) {
+    const start = (bounds.top + y) * image.width + bounds.left;
+    cropped.data.set(image.data.subarray(start, start + bounds.width), y * bounds.width);
+  }
+
+  return cropped;
+}
+
+/**
+ * Cut off dark rows and columns at the edges: the table under a photo
+ * or the black margin of a scan.
+ */
+export function cropBorders(image: GrayImage): GrayImage {
+  return crop(image, findContentBounds(image));
+}
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+/**
+ * Whether the steps change the image at all.
+ */
+export function hasSteps(steps: PreprocessingSteps): boolean {
+  return steps.grayscale || steps.contrast || steps.crop ||
+    steps.binarization !== null || steps.deskew || steps.denoise;
+}
+
+/**
+ * Run the steps in order. Every step works on the grayscale image, so
+ * grayscale conversion is part of any other step. Borders are cut off
+ * before binarization and deskewing, whose results their straight edges
+ * would otherwise dominate.
+ */
+export function preprocessImageData(image: ImageData, steps: PreprocessingSteps): PreprocessingResult {
+  const transform: ImageTransform = { scale: 1, left: 0, top: 0, width: image.width, height: image.height, rotation: 0 };
+  if (!hasSteps(steps)) return { image, transform };
+
+  let gray = toGrayImage(image);
+
+  if (steps.contrast) gray = normalizeContrast(gray);
+  if (steps.crop) {
+    const bounds = findContentBounds(gray);
+    gray = crop(gray, bounds);
+    Object.assign(transform, bounds);
+  }
+  if (steps.binarization === "sauvola") gray = binarizeSauvola(gray);
+  if (steps.binarization === "otsu") gray = binarizeOtsu(gray);
+  if (steps.deskew) {
+    transform.rotation = findDeskewAngle(gray);
+    if (transform.rotation !== 0) gray = rotate(gray, transform.rotation);
+  }
+  if (steps.denoise) gray = steps.binarization ? removeSpeckles(gray) : medianFilter(gray);
+
+  return { image: toImageData(gray), transform };
+}
+
+/**
+ * Map a box on the preprocessed image back onto the uploaded image: undo
+ * the rotation (the same mapping rotate uses to find source pixels), then
+ * the crop and the scaling.
+ */
+export function toSourceBox(box: BoundingBox, transform: ImageTransform): BoundingBox {
+  const { scale, left, top, width, height, rotation } = transform;
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const cx = width / 2;
+  const cy = height / 2;
+
+  const corners = [[box.x0, box.y0], [box.x1, box.y0], [box.x0, box.y1], [box.x1, box.y1]].map(([x, y]) => [
+    (cos * (x - cx) - sin * (y - cy) + cx + left) / scale,
+    (sin * (x - cx) + cos * (y - cy) + cy + top) / scale,
+  ]);
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+
+  return {
+    x0: Math.round(Math.min(...xs)),
+    y0: Math.round(Math.min(...ys)),
+    x1: Math.round(Math.max(...xs)),
+    y1: Math.round(Math.max(...ys)),
+  };
+}
+
+/**
+ * Stored settings completed with the defaults.
+ */
+export function resolvePreprocessing(settings: Partial<PreprocessingSettings> = {}): PreprocessingSettings {
+  return { ...DEFAULT_PREPROCESSING, ...settings };
+}
+
+/**
+ * Variants to OCR and compare: one per binarization method ("auto" tries
+ * both), and the unprocessed image if the user wants it compared or no
+ * step is enabled.
+ */
+export function getPreprocessingVariants(settings: PreprocessingSettings): PreprocessingVariant[] {
+  const { binarization, compareOriginal, ...steps } = settings;
+  const methods: (BinarizationMethod | null)[] =
+    binarization === "auto" ? ["sauvola", "otsu"] : [binarization === "none" ? null : binarization];
+
+  const variants = methods
+    .map((method) => ({
+      label: method ? BINARIZATION_LABELS[method] : "Ohne Binarisierung",
+      steps: { ...steps, binarization: method },
+    }))
+    .filter((variant) => hasSteps(variant.steps));
+
+  if (compareOriginal || variants.length === 0) {
+    variants.push({ label: "Unbearbeitet", steps: NO_STEPS });
+  }
+
+  return variants;
+}
@@ -0,0 +1,18 @@
+/**
+ * Web worker running image preprocessing off the main thread.
+ * Receives an image and the steps, answers with the processed image and
+ * its transform.
+ */
+
+import { PreprocessingSteps } from "@/types";
+import { preprocessImageData } from "./preprocess";
+
+export interface PreprocessRequest {
+  image: ImageData;
+  steps: PreprocessingSteps;
+}
+
+self.onmessage = (event: MessageEvent<PreprocessRequest>) => {
+  const result = preprocessImageData(event.data.image, event.data.steps);
+  self.postMessage(result, { transfer: [result.image.data.buffer] });
+};
@@ -1,8 +1,16 @@
 /**
  * Tesseract.js wrapper for German OCR.
+ * Results are returned as layout documents (see ./layout). Each image is
+ * preprocessed in the configured variants (see ./preprocess) and the page
+ * that reads best is kept.
  */
 
 import Tesseract from "tesseract.js";
+import { ImageTransform, OcrDocument, OcrPage, PreprocessingSettings } from "@/types";
+import { isKnownWord } from "@/lib/normalization/spelling";
+import { buildOcrPage, createOcrDocument, getPageWords, mapPageBoxes } from "./layout";
+import { DEFAULT_PREPROCESSING, PreprocessingVariant, getPreprocessingVariants, hasSteps, toSourceBox } from "./preprocess";
+import { loadImageData, runPreprocessing, toCanvas } from "./images";
 
 export interface OCRProgress {
   status: string;
@@ -11,25 +19,106 @@ export interface OCRProgress {
 
 export type ProgressCallback = (progress: OCRProgress) => void;
 
+/** A page read this confidently is kept without trying further variants */
+const GOOD_ENOUGH_CONFIDENCE = 0.9;
+
+/** Words shorter than this are not counted against the dictionary */
+const MIN_SCORED_WORD_LENGTH = 4;
+
+/**
+ * How well a page was read: the mean of Tesseract's confidence and the
+ * share of longer words found in the dictionary. Garbled keywords lower
+ * the second even where Tesseract is confident.
+ */
+function scorePage(page: OcrPage): number {
+  const words = getPageWords(page)
+    .map((word) => word.text.replace(/[^A-Za-zÄÖÜäöüß]/g, ""))
+    .filter((word) => word.length >= MIN_SCORED_WORD_LENGTH);
+  const knownShare = words.length > 0 ? words.filter(isKnownWord).length / words.length : 0;
+
+  return (page.confidence + knownShare) / 2;
+}
+
+/**
+ * OCR each preprocessing variant of an image and keep the best page, its
+ * boxes mapped back onto the uploaded image. Stops early once a variant
+ * reads with GOOD_ENOUGH_CONFIDENCE.
+ */
+async function recognizeBest(
+  worker: Tesseract.Worker,
+  image: File | Blob | string,
+  index: number,
+  variants: PreprocessingVariant[],
+  onVariant?: (variant: number) => void
+): Promise<OcrPage> {
+  const source = variants.some((variant) => hasSteps(variant.steps)) ? await loadImageData(image) : null;
+  let best: { page: OcrPage; score: number } | undefined;
+
+  for (let i = 0; i < variants.length; i++) {
+    const { label, steps } = variants[i];
+    onVariant?.(i);
+
+    let input: File | Blob | string | HTMLCanvasElement = image;
+    let transform: ImageTransform | undefined;
+    if (source && hasSteps(steps)) {
+      const processed = await runPreprocessing(source.image, steps);
+      input = toCanvas(processed.image);
+      transform = { ...processed.transform, scale: source.scale };
+    }
+
+    const result = await worker.recognize(input);
+    const recognized = buildOcrPage(result.data, index);
+    const page: OcrPage = {
+      ...(transform ? mapPageBoxes(recognized, (box) => toSourceBox(box, transform)) : recognized),
+      preprocessing: label,
+      transform,
+    };
+    const score = scorePage(page);
+
+    if (!best || score > best.score) best = { page, score };
+    if (page.confidence >= GOOD_ENOUGH_CONFIDENCE) break;
+  }
+
+  if (!best) throw new Error("Keine Bildvariante zum Erkennen konfiguriert");
+  return best.page;
+}
+
 /**
  * Perform OCR on an image file or blob.
  */
 export async function recognizeImage(
   image: File | Blob | string,
-  onProgress?: ProgressCallback
-): Promise<string> {
-  const result = await Tesseract.recognize(image, "deu", {
-    logger: (m) => {
-      if (onProgress && m.status) {
-        onProgress({
-          status: translateStatus(m.status),
-          progress: m.progress || 0,
-        });
-      }
-    },
+  onProgress?: ProgressCallback,
+  preprocessing: PreprocessingSettings = DEFAULT_PREPROCESSING
+): Promise<OcrDocument> {
+  const variants = getPreprocessingVariants(preprocessing);
+  let current = 0;
+
+  // Recognition progress runs once per variant; report it over all of them
+  const worker = await createWorker((m) => {
+    if (onProgress && m.status) {
+      const isRecognizing = m.status === "recognizing text";
+      onProgress({
+        status: isRecognizing && variants.length > 1
+          ? `${translateStatus(m.status)} (Variante ${current + 1} von ${variants.length})`
+          : translateStatus(m.status),
+        progress: isRecognizing ? (current + (m.progress || 0)) / variants.length : m.progress || 0,
+      });
+    }
   });
 
-  return result.data.text;
+  try {
+    const page = await recognizeBest(worker, image, 0, variants, (variant) => {
+      current = variant;
+      onProgress?.({
+        status: `Bereite Bild auf (${variants[variant].label})...`,
+        progress: variant / variants.length,
+      });
+    });
+    return createOcrDocument([page]);
+  } finally {
+    await worker.terminate();
+  }
 }
 
 /**
@@ -48,30 +137,31 @@ function translateStatus(status: string): string {
 }
 
 /**
- * Create a worker for batch processing.
+ * Create a German worker, optionally reporting its progress.
  */
-export async function createWorker(): Promise<Tesseract.Worker> {
-  const worker = await Tesseract.createWorker("deu", 1, {
-    logger: () => {},
-  });
+export async function createWorker(
+  logger: (message: Tesseract.LoggerMessage) => void = () => {}
+): Promise<Tesseract.Worker> {
+  const worker = await Tesseract.createWorker("deu", 1, { logger });
 
   return worker;
 }
 
 /**
- * Process multiple images with the same worker.
+ * Process multiple images with the same worker, one page per image.
  */
 export async function batchRecognize(
   images: (File | Blob)[],
-  onProgress?: (index: number, total: number) => void
-): Promise<string[]> {
+  onProgress?: (index: number, total: number) => void,
+  preprocessing: PreprocessingSettings = DEFAULT_PREPROCESSING
+): Promise<OcrDocument> {
+  const variants = getPreprocessingVariants(preprocessing);
   const worker = await createWorker();
-  const results: string[] = [];
+  const pages: OcrPage[] = [];
 
   try {
     for (let i = 0; i < images.length; i++) {
-      const result = await worker.recognize(images[i]);
-      results.push(result.data.text);
+      pages.push(await recognizeBest(worker, images[i], i, variants));
 
       if (onProgress) {
         onProgress(i + 1, images.length);
@@ -81,5 +171,5 @@ export async function batchRecognize(
     await worker.terminate();
   }
 
-  return results;
+  return createOcrDocument(pages);
 }
@@ -0,0 +1,175 @@
+/**
+ * GiroCode (EPC069-12 SEPA credit transfer QR code).
+ *
+ * Builds the payment from the extracted data, validates it and encodes it
+ * locally as a QR code. Banking apps read payee, IBAN, amount and
+ * Verwendungszweck from the code, so the user never has to retype an IBAN
+ * that OCR may have misread.
+ */
+
+import QRCode from "qrcode";
+import { ExtractedData, PaymentDetails, ReferenceKind } from "@/types";
+import { isValidIBAN } from "@/lib/extraction/iban";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** EPC069-12 field limits */
+const MAX_NAME_LENGTH = 70;
+const MAX_REFERENCE_LENGTH = 140;
+const MIN_AMOUNT = 0.01;
+const MAX_AMOUNT = 999999999.99;
+
+/** BIC: 8 or 11 characters */
+const BIC_FORMAT = /^[A-Z]{6}[A-Z0-9]{2}(?:[A-Z0-9]{3})?$/;
+
+/** Reference kinds used as Verwendungszweck, most useful for the payee first */
+const PAYMENT_REFERENCE_KINDS: ReferenceKind[] = [
+  "cash_reference",
+  "invoice_number",
+  "contribution_number",
+  "dunning_court_file",
+  "file_number",
+  "court_file",
+  "customer_number",
+  "tax_number",
+];
+
+// ============================================================================
+// PAYMENT DETAILS
+// ============================================================================
+
+/**
+ * Prefill the payment from the extracted data.
+ * Returns undefined unless both an IBAN and an amount to pay were found
+ * (or the letter carries a GiroCode). Only an IBAN read from the letter
+ * with a valid checksum is prefilled; a corrected guess could send the
+ * money to an account that is not on the letter, so the field is left for
+ * the user to fill in from the original instead.
+ */
+export function buildPaymentDetails(data: ExtractedData): PaymentDetails | undefined {
+  // A GiroCode printed on the letter is more reliable than OCR text
+  const printed = data.codes?.find((code) => code.payment)?.payment;
+  if (printed) {
+    return {
+      ...printed,
+      name: printed.name || (data.sender?.name ?? "").substring(0, MAX_NAME_LENGTH),
+      // The amount is optional in a GiroCode
+      amount: Number.isFinite(printed.amount) ? printed.amount : data.amountCheck?.amountDue ?? NaN,
+    };
+  }
+
+  if (data.ibans.length === 0 || !data.amountCheck) return undefined;
+  const iban = data.ibans.find((i) => i.isValid);
+
+  const reference = PAYMENT_REFERENCE_KINDS
+    .map((kind) => data.references.find((r) => r.kind === kind))
+    .find((r) => r !== undefined);
+
+  // With an agreed instalment plan only the first instalment is paid now
+  const plan = data.instalmentPlan?.status === "confirmed" ? data.instalmentPlan : undefined;
+
+  return {
+    name: (data.sender?.name ?? "").substring(0, MAX_NAME_LENGTH),
+    iban: iban?.iban ?? "",
+    bic: iban?.bic,
+    amount: plan?.schedule[0]?.amount ?? plan?.amount ?? data.amountCheck.amountDue,
+    reference: (reference?.value ?? "").substring(0, MAX_REFERENCE_LENGTH),
+  };
+}
+
+/**
+ * Check the payment against the EPC069-12 rules.
+ * Returns German error messages; an empty list means the code can be built.
+ */
+export function validatePaymentDetails(details: PaymentDetails): string[] {
+  const errors: string[] = [];
+  const iban = details.iban.replace(/\s/g, "").toUpperCase();
+  const bic = details.bic?.replace(/\s/g, "").toUpperCase();
+
+  if (!details.name.trim()) {
+    errors.push("Bitte den Empfänger angeben.");
+  } else if (details.name.length > MAX_NAME_LENGTH) {
+    errors.push(`Der Empfänger darf höchstens ${MAX_NAME_LENGTH} Zeichen lang sein.`);
+  }
+
+  if (!iban) {
+    errors.push("Bitte die IBAN aus dem Original-Schreiben eintragen.");
+  } else if (!isValidIBAN(iban)) {
+    errors.push("Die IBAN ist ungültig (Prüfsumme stimmt nicht).");
+  }
+
+  if (bic && !BIC_FORMAT.test(bic)) {
+    errors.push("Die BIC hat kein gültiges Format.");
+  }
+
+  if (!Number.isFinite(details.amount) || details.amount < MIN_AMOUNT || details.amount > MAX_AMOUNT) {
+    errors.push("Bitte einen gültigen Betrag angeben.");
+  }
+
+  if (details.reference.length > MAX_REFERENCE_LENGTH) {
+    errors.push(`Der Verwendungszweck darf höchstens ${MAX_REFERENCE_LENGTH} Zeichen lang sein.`);
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Build the EPC069-12 payload (version 002, UTF-8, unstructured remittance).
+ */
+export function buildEpcPayload(details: PaymentDetails): string {
+  const lines = [
+    "BCD",
+    "002",
+    "1",
+    "SCT",
+    details.bic?.replace(/\s/g, "").toUpperCase() ?? "",
+    details.name.trim(),
+    details.iban.replace(/\s/g, "").toUpperCase(),
+    `EUR${details.amount.toFixed(2)}`,
+    "",                         // Purpose code
+    "",                         // Structured creditor reference
+    details.reference.trim(),   // Unstructured remittance information
+  ];
+
+  return lines.join("\n");
+}
+
+/**
+ * Parse the content of a GiroCode (EPC069-12, versions 001 and 002).
+ * Returns undefined for any other QR content.
+ */
+export function parseEpcPayload(payload: string): PaymentDetails | undefined {
+  const lines = payload.split(/\r?\n/).map((line) => line.trim());
+  if (lines[0] !== "BCD" || !["001", "002"].includes(lines[1]) || lines[3] !== "SCT") {
+    return undefined;
+  }
+
+  const amountMatch = (lines[7] ?? "").match(/^EUR(\d+(?:\.\d{1,2})?)$/);
+
+  return {
+    name: lines[5] ?? "",
+    iban: (lines[6] ?? "").replace(/\s/g, "").toUpperCase(),
+    bic: lines[4] || undefined,
+    amount: amountMatch ? parseFloat(amountMatch[1]) : NaN,
+    // Structured creditor reference (RF...) or unstructured text
+    reference: lines[9] || lines[10] || "",
+  };
+}
+
+/**
+ * Encode the payment as a QR code image (data URL).
+ * EPC069-12 requires error correction level M.
+ */
+export async function generateGiroCode(details: PaymentDetails): Promise<string> {
+  return QRCode.toDataURL(buildEpcPayload(details), {
+    errorCorrectionLevel: "M",
+    margin: 4,
+    width: 256,
+  });
+}
@@ -11,7 +11,7 @@
  * 4. Only non-neutralized keywords contribute to the final score
  */
 
-import { LetterCategory, KeywordMatch, ScoringResult, ExtractedData, UrgencyLevel } from "@/types";
+import { LetterCategory, KeywordMatch, ScoringResult, ExtractedData, UncertainWord, UrgencyLevel } from "@/types";
 import {
   ALL_KEYWORDS,
   CATEGORY_LABELS,
@@ -23,9 +23,13 @@ import {
 import {
   getUrgencyFromScore,
   getDeadlineMultiplier,
+  URGENCY_THRESHOLDS,
   CATEGORY_RECOMMENDATIONS,
   SUMMARY_TEMPLATES,
+  getDataRecommendations,
+  getUncertaintyRecommendations,
 } from "./rules";
+import { findUncertainItems } from "./uncertainty";
 import {
   splitIntoSentences,
   evaluateKeywordInContext,
@@ -213,11 +217,15 @@ function determinePrimaryCategory(matches: ExtendedKeywordMatch[]): LetterCatego
     enforcement: 0,
     final_notice: 0,
     payment_reminder: 0,
+    payment_plan: 0,
     informational: 0,
     unknown: 0,
   };
 
+  // Instalment wording is often just an offer in a reminder; only a
+  // confirmed plan makes the letter a payment_plan (see analyzeText)
   for (const match of activeMatches) {
+    if (match.category === "payment_plan") continue;
     categoryScores[match.category] += match.effectiveWeight;
   }
 
@@ -304,19 +312,29 @@ function calculateScoreWithContext(
 /**
  * Analyze text and return scoring result.
  * This is the main entry point for the context-aware scoring engine.
+ * Low-confidence OCR words mark the findings read from them as uncertain.
  */
 export function analyzeText(
   text: string,
-  extractedData: ExtractedData
+  extractedData: ExtractedData,
+  uncertainWords: UncertainWord[] = []
 ): ScoringResult {
   // Find all keywords with context-aware evaluation
   const matches = findKeywordMatchesWithContext(text);
   
   // Determine category from active keywords only
-  const category = determinePrimaryCategory(matches);
+  let category = determinePrimaryCategory(matches);
   
   // Calculate score from active keywords only
-  const score = calculateScoreWithContext(matches, extractedData.deadlineDays);
+  let score = calculateScoreWithContext(matches, extractedData.deadlineDays);
+
+  // A confirmed instalment plan or Stundung replaces the demand to pay at
+  // once: the instalments still need attention, but nothing is overdue.
+  // Active enforcement keywords keep their score.
+  if (extractedData.instalmentPlan?.status === "confirmed" && score < URGENCY_THRESHOLDS.red) {
+    category = "payment_plan";
+    score = Math.min(score, URGENCY_THRESHOLDS.yellow);
+  }
   
   // Get urgency level from score
   const urgency = getUrgencyFromScore(score);
@@ -325,8 +343,16 @@ export function analyzeText(
   // Generate summary
   const summary = SUMMARY_TEMPLATES[urgency](category, categoryLabel);
 
-  // Get recommendations for this category
-  const recommendations = CATEGORY_RECOMMENDATIONS[category];
+  // Findings read from low-confidence OCR words
+  const uncertainItems = findUncertainItems(text, extractedData, uncertainWords);
+
+  // Get recommendations for this category, led by uncertain readings and
+  // findings in the data
+  const recommendations = [
+    ...getUncertaintyRecommendations(uncertainItems),
+    ...getDataRecommendations(extractedData),
+    ...CATEGORY_RECOMMENDATIONS[category],
+  ];
 
   // Log neutralized keywords for debugging (can be removed in production)
   const neutralizedCount = matches.filter(m => m.isNeutralized).length;
@@ -352,6 +378,7 @@ export function analyzeText(
     matches: standardMatches,
     summary,
     recommendations,
+    uncertainItems,
   };
 }
 
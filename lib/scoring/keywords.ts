@@ -75,6 +75,16 @@ export const GREEN_KEYWORDS: KeywordDefinition[] = [
   { keyword: "erledigt", category: "informational", urgency: "green", weight: 40 },
   { keyword: "eingetragen", category: "informational", urgency: "green", weight: 30 },
   { keyword: "aktualisiert", category: "informational", urgency: "green", weight: 30 },
+  // Instalment plan or deferral. Plain "Ratenzahlung" is often just an offer
+  // in a reminder, so it weighs less than wording of an agreed plan. These
+  // keywords do not decide the category; only a confirmed plan does.
+  { keyword: "ratenzahlung", category: "payment_plan", urgency: "green", weight: 30 },
+  { keyword: "ratenzahlungsvereinbarung", category: "payment_plan", urgency: "green", weight: 60 },
+  { keyword: "ratenplan", category: "payment_plan", urgency: "green", weight: 55 },
+  { keyword: "teilzahlung", category: "payment_plan", urgency: "green", weight: 30 },
+  { keyword: "monatsrate", category: "payment_plan", urgency: "green", weight: 35 },
+  { keyword: "stundung", category: "payment_plan", urgency: "green", weight: 35 },
+  { keyword: "gestundet", category: "payment_plan", urgency: "green", weight: 60 },
 ];
 
 /** All keywords combined for iteration */
@@ -89,6 +99,7 @@ export const CATEGORY_LABELS: Record<LetterCategory, string> = {
   enforcement: "Vollstreckungsbescheid",
   final_notice: "Letzte Mahnung",
   payment_reminder: "Zahlungserinnerung",
+  payment_plan: "Ratenzahlung / Stundung",
   informational: "Informationsschreiben",
   unknown: "Unbekannt",
 };
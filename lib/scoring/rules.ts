@@ -2,7 +2,9 @@
  * Scoring rules and recommendation templates.
  */
 
-import { LetterCategory, UrgencyLevel } from "@/types";
+import { ExtractedData, LetterCategory, UncertainItem, UrgencyLevel } from "@/types";
+import { formatEuro } from "@/lib/extraction/amounts";
+import { formatDate } from "@/lib/calendar/dates";
 
 /** Threshold values for urgency classification */
 export const URGENCY_THRESHOLDS = {
@@ -32,6 +34,12 @@ export const CATEGORY_RECOMMENDATIONS: Record<LetterCategory, string[]> = {
     "Bei Unklarheiten: Kontaktieren Sie den Absender.",
     "Bewahren Sie den Zahlungsnachweis auf.",
   ],
+  payment_plan: [
+    "Zahlen Sie jede Rate pünktlich – bei Verzug kann die gesamte Restforderung sofort fällig werden.",
+    "Richten Sie einen Dauerauftrag mit dem angegebenen Verwendungszweck ein.",
+    "Wenn eine Rate nicht möglich ist, melden Sie sich vor dem Fälligkeitstag beim Absender.",
+    "Bewahren Sie die Bewilligung und die Zahlungsnachweise auf.",
+  ],
   informational: [
     "Keine sofortigen Maßnahmen erforderlich.",
     "Lesen Sie das Schreiben zur Information.",
@@ -44,6 +52,52 @@ export const CATEGORY_RECOMMENDATIONS: Record<LetterCategory, string[]> = {
   ],
 };
 
+/**
+ * Recommendations for findings in the extracted data. They are more
+ * specific than the category recommendations and shown first.
+ */
+export function getDataRecommendations(data: ExtractedData): string[] {
+  const recommendations: string[] = [];
+
+  const fees = data.collectionFees;
+  if (fees && !fees.isPlausible) {
+    recommendations.push(
+      `Die Inkassokosten von ${formatEuro(fees.stated)} übersteigen den erstattungsfähigen Höchstbetrag ` +
+      `von etwa ${formatEuro(fees.maximum)} (§ 13e RDG). Widersprechen Sie dem überhöhten Teil schriftlich ` +
+      `und zahlen Sie nur den unstreitigen Betrag – die Verbraucherzentrale hilft dabei.`
+    );
+  }
+
+  const limitation = data.limitation;
+  if (limitation?.mayBeExpired) {
+    recommendations.push(
+      `Die Forderung stammt aus ${limitation.claimYear} und könnte verjährt sein (Frist endete am ${formatDate(limitation.expiresAt)}). ` +
+      `Lassen Sie das prüfen, bevor Sie zahlen oder die Forderung anerkennen – eine Zahlung kann nicht zurückgefordert werden.`
+    );
+  }
+
+  return recommendations;
+}
+
+/** Uncertain findings quoted in the recommendation; the rest are in the list */
+const MAX_QUOTED_UNCERTAIN = 4;
+
+/**
+ * Ask the user to check findings that rest on poorly read words.
+ */
+export function getUncertaintyRecommendations(items: UncertainItem[]): string[] {
+  if (items.length === 0) return [];
+
+  const texts = Array.from(new Set(items.map((item) => item.text)));
+  const quoted = texts.slice(0, MAX_QUOTED_UNCERTAIN).map((text) => `„${text}“`).join(", ");
+  const more = texts.length > MAX_QUOTED_UNCERTAIN ? ` und ${texts.length - MAX_QUOTED_UNCERTAIN} weitere Stellen` : "";
+
+  return [
+    `Die Texterkennung ist bei ${quoted}${more} unsicher. Vergleichen Sie diese Stellen mit dem ` +
+    `Original-Schreiben – die Einstufung beruht auch auf ihnen.`,
+  ];
+}
+
 /**
  * Helper to get the correct indefinite article (ein/eine) for a category.
  */
@@ -51,13 +105,15 @@ function getArticle(category: LetterCategory): string {
   switch (category) {
     case "final_notice":
     case "payment_reminder":
+    case "payment_plan":
     case "enforcement": // In case we ever map to "Vollstreckung" (f), but currently "Vollstreckungsbescheid" (m)
       // Actually, let's just check the label gender.
       // Vollstreckungsbescheid (m) -> ein
       // Letzte Mahnung (f) -> eine
       // Zahlungserinnerung (f) -> eine
       // Informationsschreiben (n) -> ein
-      if (category === "final_notice" || category === "payment_reminder") return "eine";
+      // Ratenzahlung (f) -> eine
+      if (category === "final_notice" || category === "payment_reminder" || category === "payment_plan") return "eine";
       return "ein";
     default:
       return "ein";
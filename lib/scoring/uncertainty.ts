@@ -0,0 +1,60 @@
+/**
+ * OCR confidence of the findings the analysis rests on.
+ *
+ * Tesseract rates every word it reads. Keywords, amounts, dates and IBANs
+ * read from poorly rated words are listed for the user to check against
+ * the letter, so that a misread "Pfändung" does not quietly decide the
+ * traffic light.
+ */
+
+import { ExtractedData, OcrDocument, OffsetMap, UncertainItem, UncertainItemKind, UncertainWord } from "@/types";
+import { getLowConfidenceWords } from "@/lib/ocr/layout";
+import { toNormalizedSpan } from "@/lib/normalization/offsets";
+import { getHighlightSpans } from "./highlighter";
+
+/** German labels of uncertain findings */
+export const UNCERTAIN_ITEM_LABELS: Record<UncertainItemKind, string> = {
+  keyword: "Schlüsselwort",
+  amount: "Betrag",
+  date: "Datum",
+  iban: "IBAN",
+};
+
+/**
+ * Low-confidence words of a scanned letter, positioned in the normalized
+ * text. Empty if the raw text is not the OCR text, e.g. after the user
+ * edited it.
+ */
+export function findUncertainWords(ocrDocument: OcrDocument, rawText: string, map: OffsetMap): UncertainWord[] {
+  if (ocrDocument.text !== rawText) return [];
+
+  return getLowConfidenceWords(ocrDocument)
+    .map((word) => ({ text: word.text, confidence: word.confidence, ...toNormalizedSpan(map, word.start, word.end) }))
+    .filter((word) => word.start < word.end);
+}
+
+/**
+ * Active keywords, amounts, dates and IBANs that overlap low-confidence
+ * words, in text order. Neutralized keywords do not count towards the
+ * score and are left out.
+ */
+export function findUncertainItems(text: string, data: ExtractedData, words: UncertainWord[]): UncertainItem[] {
+  if (words.length === 0) return [];
+
+  const candidates: Omit<UncertainItem, "words">[] = [
+    ...getHighlightSpans(text).spans
+      .filter((span) => !span.isNeutralized)
+      .map(({ start, end }) => ({ kind: "keyword" as const, start, end })),
+    ...data.amounts.map(({ start, end }) => ({ kind: "amount" as const, start, end })),
+    ...data.dates.map(({ start, end }) => ({ kind: "date" as const, start, end })),
+    ...data.ibans.map(({ start, end }) => ({ kind: "iban" as const, start, end })),
+  ]
+    // Items from QR codes carry no position
+    .filter((item) => item.start >= 0)
+    .map((item) => ({ ...item, text: text.slice(item.start, item.end) }));
+
+  return candidates
+    .map((item) => ({ ...item, words: words.filter((word) => word.start < item.end && word.end > item.start) }))
+    .filter((item) => item.words.length > 0)
+    .sort((a, b) => a.start - b.start);
+}
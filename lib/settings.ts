@@ -0,0 +1,43 @@
+/**
+ * Local settings storage.
+ *
+ * Settings are chosen once and kept in localStorage, like the history.
+ */
+
+import { UserSettings } from "@/types";
+
+const SETTINGS_KEY = "behoerden-klartext-settings";
+
+/**
+ * Load settings from localStorage.
+ * Returns empty settings if none exist or on error.
+ */
+export function loadSettings(): UserSettings {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return {};
+
+    const parsed = JSON.parse(stored);
+    if (typeof parsed !== "object" || parsed === null) return {};
+
+    return parsed as UserSettings;
+  } catch (error) {
+    console.error("[Settings] Failed to load settings:", error);
+    return {};
+  }
+}
+
+/**
+ * Save settings to localStorage.
+ */
+export function saveSettings(settings: UserSettings): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("[Settings] Failed to save settings:", error);
+  }
+}
@@ -10,16 +10,266 @@ export type LetterCategory =
   | "enforcement"      // Vollstreckungsbescheid
   | "final_notice"     // Letzte Mahnung
   | "payment_reminder" // Zahlungserinnerung
+  | "payment_plan"     // Ratenzahlung / Stundung
   | "informational"    // Informationsschreiben
   | "unknown";
 
+/** Bundesland codes (ISO 3166-2:DE suffixes) */
+export type Bundesland =
+  | "BW" | "BY" | "BE" | "BB" | "HB" | "HH" | "HE" | "MV"
+  | "NI" | "NW" | "RP" | "SL" | "SN" | "ST" | "SH" | "TH";
+
+/** Role of a date within the letter, derived from its surrounding wording */
+export type DateRole =
+  | "letter_date"      // Datum des Schreibens (Briefkopf)
+  | "due_date"         // Zahlbar bis / fällig am
+  | "notice_date"      // Bescheid vom
+  | "reference_date"   // Ihr/unser Schreiben vom
+  | "hearing_date"     // Termin, Anhörung, Verhandlung
+  | "period_start"     // Zeitraum von ...
+  | "period_end"       // ... bis
+  | "unknown";
+
+/** Where an extracted item was found in the letter */
+export interface SourceSpan {
+  start: number;       // Offset in the normalized text, -1 if not read from the text (QR code)
+  end: number;
+  raw: string;         // Matched text
+  confidence: number;  // 0..1, from the strength of the pattern
+}
+
+/** Date found in the letter text */
+export interface ExtractedDate extends SourceSpan {
+  date: Date;
+  role: DateRole;
+}
+
+/** IBAN found in the letter, with checksum and bank details */
+export interface ExtractedIBAN extends SourceSpan {
+  iban: string;        // Compact form, OCR letter/digit mix-ups (O/0) already fixed
+  formatted: string;   // Groups of four
+  isValid: boolean;    // ISO 13616 mod-97 checksum
+  bankName?: string;   // Resolved from the Bankleitzahl
+  bic?: string;        // Labelled BIC near the IBAN, else from the bank table
+  suggestion?: string; // Likely correct IBAN if the checksum fails
+}
+
+/** Meaning of an amount, derived from the words around it */
+export type AmountRole =
+  | "principal"          // Hauptforderung, Rechnungsbetrag
+  | "dunning_fee"        // Mahngebühren
+  | "interest"           // (Verzugs-)Zinsen
+  | "late_surcharge"     // Säumniszuschlag
+  | "collection_costs"   // Inkasso-/Vollstreckungskosten
+  | "total"              // Gesamtbetrag
+  | "credit"             // Gutschrift, Erstattung, bereits gezahlt
+  | "unknown";
+
+/** Currency amount found in the letter */
+export interface ExtractedAmount extends SourceSpan {
+  value: number;
+  formatted: string;
+  role: AmountRole;
+}
+
+/** Amount to pay and whether the parts add up to the stated total */
+export interface AmountCheck {
+  amountDue: number;       // "Zu zahlen"
+  componentsSum?: number;  // Sum of principal, fees, interest etc. minus credits
+  difference?: number;     // Stated total minus componentsSum
+  isConsistent: boolean;
+}
+
+/** Kind of reference number */
+export type ReferenceKind =
+  | "tax_id"               // Steuerliche Identifikationsnummer
+  | "tax_number"           // Steuernummer
+  | "bg_number"            // Nummer der Bedarfsgemeinschaft (Jobcenter)
+  | "dunning_court_file"   // Geschäftsnummer des Mahngerichts
+  | "court_file"           // Gerichtliches Aktenzeichen
+  | "cash_reference"       // Kassenzeichen
+  | "contribution_number"  // Beitragsnummer (Rundfunkbeitrag)
+  | "customer_number"      // Kunden-, Mitglieds-, Vertragsnummer
+  | "invoice_number"       // Rechnungsnummer
+  | "file_number";         // Sonstiges Aktenzeichen / Geschäftszeichen
+
+/** Reference number found in the letter */
+export interface ExtractedReference extends SourceSpan {
+  kind: ReferenceKind;
+  value: string;       // Cleaned value, e.g. "12 C 345/25"
+  isValid?: boolean;   // Check digit / structure result, for kinds that have one
+}
+
+/** Kind of sender, from the authority gazetteer */
+export type SenderType =
+  | "tax_office"               // Finanzamt
+  | "customs_office"           // Hauptzollamt
+  | "jobcenter"
+  | "employment_agency"        // Agentur für Arbeit
+  | "family_benefits_office"   // Familienkasse
+  | "pension_insurance"        // Deutsche Rentenversicherung
+  | "court"                    // Amtsgericht, Mahngericht, ...
+  | "bailiff"                  // Gerichtsvollzieher
+  | "fine_office"              // Bußgeldstelle
+  | "city_treasury"            // Stadtkasse, Gemeindekasse, Bundeskasse
+  | "broadcasting_fee_service" // ARD ZDF Deutschlandradio Beitragsservice
+  | "health_insurance"         // Krankenkasse
+  | "debt_collection"          // Private Inkasso
+  | "municipality"             // Stadt, Gemeinde, Landratsamt
+  | "company"                  // Other private sender
+  | "unknown";
+
+/** Part of the letter the sender was read from */
+export type SenderSource = "letterhead" | "sender_line" | "closing";
+
+/** Sender of the letter */
+export interface SenderInfo extends SourceSpan {
+  name: string;
+  type: SenderType;
+  source: SenderSource;
+}
+
+/** Phone or fax number of the sender */
+export interface ContactNumber extends SourceSpan {
+  kind: "phone" | "fax";
+  number: string;      // As printed
+  href: string;        // tel: link
+}
+
+/** Contact details of the sender; the span runs from the first detail found to the last */
+export interface ContactInfo extends SourceSpan {
+  person?: string;           // Sachbearbeiter/in
+  numbers: ContactNumber[];
+  emails: string[];
+  room?: string;
+  officeHours: string[];     // One entry per line, e.g. "Mo-Fr 08:00-12:00"
+  postalAddress?: string;
+  visitingAddress?: string;
+}
+
 /** Extracted data from letter text */
 export interface ExtractedData {
-  dates: string[];
-  amounts: { value: number; formatted: string }[];
-  references: string[];
-  ibans: string[];
+  sender?: SenderInfo;
+  contact?: ContactInfo;
+  dates: ExtractedDate[];
+  amounts: ExtractedAmount[];
+  amountCheck?: AmountCheck;
+  references: ExtractedReference[];
+  ibans: ExtractedIBAN[];
   deadlineDays?: number;
+  deadlineDate?: Date;       // Concrete due date resolved from the deadline expression
+  deadlineNote?: string;     // How deadlineDate was computed
+  deadlineSpan?: SourceSpan; // Date or phrase deadlineDate was resolved from
+  codes?: DecodedCode[];     // QR codes and barcodes found in the images
+  codeWarnings?: string[];   // Disagreements between codes and OCR text
+  instalmentPlan?: InstalmentPlan;
+  lateCharges?: LateChargeCheck[];
+  collectionFees?: CollectionFeeCheck;
+  limitation?: LimitationHint;
+  extensions: Partial<ExtractionExtensions>; // Results of custom extractors
+}
+
+/**
+ * Output types of custom extractors, by extractor id. Extension modules add
+ * their entry by declaration merging (lib/extraction/extensions).
+ */
+export interface ExtractionExtensions {}
+
+/** Regular limitation period (§§195, 199 BGB) of the claim; the span is that of source */
+export interface LimitationHint extends SourceSpan {
+  claimYear: number;       // Year the claim arose
+  source: string;          // Text the year was read from
+  expiresAt: Date;         // 31.12. three years after claimYear
+  mayBeExpired: boolean;   // expiresAt is before the letter date
+  note?: string;           // Events that may have suspended the period
+}
+
+/** Inkassokosten compared with the cap of §13e RDG; the span is that of the first stated fee */
+export interface CollectionFeeCheck extends SourceSpan {
+  principal: number;       // Gegenstandswert
+  stated: number;          // Itemised collection fees
+  maximum: number;         // Geschäftsgebühr plus Auslagenpauschale
+  isPlausible: boolean;    // false: the fees look excessive
+  note: string;            // How maximum was computed
+}
+
+/** Säumniszuschlag (§240 AO) or Verzugszinsen (§288 BGB) */
+export type LateChargeKind = "late_surcharge" | "default_interest";
+
+/** Recalculated late charge compared with the stated figure; the span is that of the figure */
+export interface LateChargeCheck extends SourceSpan {
+  kind: LateChargeKind;
+  principal: number;       // Basis of the calculation
+  from: Date;              // Due date; the charge accrues after it
+  until: Date;             // Letter date or stated end of the interest period
+  stated: number;          // Figure in the letter
+  expected: number;        // Highest figure the law allows
+  isPlausible: boolean;    // false: the stated figure looks inflated
+  note: string;            // How expected was computed
+}
+
+/** Ratenzahlung or Stundung */
+export type InstalmentPlanKind = "instalments" | "deferral";
+
+/** Whether the letter only offers the plan or confirms an agreed one */
+export type InstalmentPlanStatus = "offered" | "confirmed";
+
+/** Single payment of an instalment plan */
+export interface Instalment {
+  number: number;          // 1-based
+  dueDate: Date;
+  amount?: number;
+}
+
+/** Instalment plan or deferral offered or confirmed in the letter; the span runs from the line naming it to the end of that sentence */
+export interface InstalmentPlan extends SourceSpan {
+  kind: InstalmentPlanKind;
+  status: InstalmentPlanStatus;
+  count?: number;          // Number of instalments
+  amount?: number;         // Amount per instalment
+  dueDay?: number;         // Day of the month the instalments are due
+  firstDueDate?: Date;
+  deferredUntil?: Date;    // End of a Stundung
+  schedule: Instalment[];  // Empty unless the dates can be derived
+}
+
+/** Kind of legal remedy named in the Rechtsbehelfsbelehrung */
+export type LegalRemedyType =
+  | "objection"        // Widerspruch
+  | "opposition"       // Einspruch
+  | "lawsuit"          // Klage
+  | "complaint";       // Beschwerde
+
+/** Accepted way of filing the remedy */
+export type FilingForm =
+  | "written"          // schriftlich
+  | "electronic"       // elektronisch (qualifizierte Signatur, De-Mail, ELSTER)
+  | "record";          // zur Niederschrift
+
+/** Parsed Rechtsbehelfsbelehrung; the span is the whole section */
+export interface LegalRemedy extends SourceSpan {
+  type: LegalRemedyType;
+  period?: string;         // As stated, e.g. "innerhalb eines Monats nach Bekanntgabe"
+  deadline?: Date;         // Resolved, shifted to a working day
+  deadlineNote?: string;
+  authority?: string;      // Where to file
+  forms: FilingForm[];
+}
+
+/** Credit transfer details for a GiroCode (EPC QR), editable by the user */
+export interface PaymentDetails {
+  name: string;          // Payee, max. 70 characters
+  iban: string;
+  bic?: string;
+  amount: number;        // EUR
+  reference: string;     // Verwendungszweck, max. 140 characters
+}
+
+/** QR code or barcode printed on the letter */
+export interface DecodedCode {
+  format: string;            // "qr_code", "code_128", "itf", ...
+  value: string;             // Decoded content
+  payment?: PaymentDetails;  // Content of a GiroCode (EPC069-12)
 }
 
 /** Individual keyword match found in text */
@@ -39,17 +289,153 @@ export interface ScoringResult {
   matches: KeywordMatch[];
   summary: string;
   recommendations: string[];
+  uncertainItems: UncertainItem[]; // Findings read from low-confidence OCR words
+}
+
+/** Range of the normalized text that replaced a range of the previous step's text */
+export interface OffsetEdit {
+  start: number;         // In the step's output
+  end: number;
+  sourceStart: number;   // In the step's input
+  sourceEnd: number;
+}
+
+/**
+ * Way back from the normalized to the raw text: the changed ranges of each
+ * normalization step, in the order the steps ran. Unchanged text between
+ * edits maps one to one.
+ */
+export interface OffsetMap {
+  steps: OffsetEdit[][];
+}
+
+/** Normalization rule behind a change */
+export type NormalizationRule =
+  | "umlaut"
+  | "invisible"
+  | "fullwidth"
+  | "ligature"
+  | "typography"
+  | "look-alike"
+  | "word-join"
+  | "hyphenation"
+  | "line-merge"
+  | "currency"
+  | "spelling"
+  | "whitespace";
+
+/** One change normalization made, or would have made if not rejected */
+export interface NormalizationChange {
+  id: string;                // Stable across re-runs with other changes rejected
+  rule: NormalizationRule;
+  rawStart: number;          // In rawText
+  rawEnd: number;
+  start: number;             // In normalizedText
+  end: number;
+  before: string;
+  after: string;
+  accepted: boolean;
 }
 
 /** Complete analysis result */
 export interface AnalysisResult {
   rawText: string;
   normalizedText: string;
+  offsetMap: OffsetMap;      // normalizedText offsets -> rawText offsets
+  normalizationLog: NormalizationChange[];
+  ocrDocument?: OcrDocument; // Layout of scanned input; rawText is its text
+  uncertainWords?: UncertainWord[]; // Low-confidence OCR words in normalizedText
   extractedData: ExtractedData;
+  legalRemedy?: LegalRemedy;
   scoring: ScoringResult;
   processedAt: Date;
 }
 
+/** Pixel rectangle on the uploaded page image, from top left (x0, y0) to bottom right (x1, y1) */
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/** Recognized word; start and end are offsets in OcrDocument.text */
+export interface OcrWord {
+  text: string;
+  bbox: BoundingBox;
+  confidence: number;        // 0-1
+  start: number;
+  end: number;
+}
+
+export interface OcrLine {
+  words: OcrWord[];
+  bbox: BoundingBox;
+  confidence: number;
+}
+
+export interface OcrParagraph {
+  lines: OcrLine[];
+  bbox: BoundingBox;
+  confidence: number;
+}
+
+/** Text block found by page segmentation (letterhead, address, body, ...) */
+export interface OcrBlock {
+  paragraphs: OcrParagraph[];
+  bbox: BoundingBox;
+  confidence: number;
+}
+
+/** One scanned page, blocks in reading order */
+export interface OcrPage {
+  index: number;             // 0-based page number
+  blocks: OcrBlock[];
+  confidence: number;
+  preprocessing?: string;    // Label of the preprocessing variant that read best
+  transform?: ImageTransform; // Geometry of that variant; boxes are already mapped back
+}
+
+/**
+ * Where the preprocessed image OCR ran on sits in the uploaded image: the
+ * upload was scaled, cropped, then rotated around the centre of the crop.
+ */
+export interface ImageTransform {
+  scale: number;             // Processed pixels per uploaded pixel
+  left: number;              // Crop offset and size, in scaled pixels
+  top: number;
+  width: number;
+  height: number;
+  rotation: number;          // Degrees the crop was rotated by
+}
+
+/** Structured OCR result; text is built from the pages in reading order */
+export interface OcrDocument {
+  pages: OcrPage[];
+  text: string;
+  confidence: number;
+}
+
+/** OCR word read with low confidence; start and end are offsets in the normalized text */
+export interface UncertainWord {
+  text: string;              // As read by OCR
+  confidence: number;        // 0-1
+  start: number;
+  end: number;
+}
+
+/** Kind of finding that rests on uncertain words */
+export type UncertainItemKind = "keyword" | "amount" | "date" | "iban";
+
+/** Keyword or extracted item read from low-confidence OCR words */
+export interface UncertainItem {
+  kind: UncertainItemKind;
+  text: string;              // As in the normalized text
+  start: number;
+  end: number;
+  words: UncertainWord[];
+}
+
 /** OCR processing state */
 export interface OCRState {
   isProcessing: boolean;
@@ -91,7 +477,39 @@ export interface HistoryEntry {
   category: LetterCategory;
   categoryLabel: string;
   preview: string;               // First ~100 chars of text
+  sender?: Pick<SenderInfo, "name" | "type">; // Missing in entries saved before sender detection
   summary: string;               // Generated summary text
   matches: HistoryRuleMatch[];   // All matched rules with details
   recommendations: string[];
 }
+
+// ============================================================================
+// SETTINGS TYPES
+// ============================================================================
+
+/** Threshold method turning the grayscale image into black and white */
+export type BinarizationMethod =
+  | "sauvola"          // Local threshold, copes with shadows and uneven light
+  | "otsu";            // One threshold for the whole page, for even scans
+
+/** Image preprocessing steps before OCR, in the order they run */
+export interface PreprocessingSteps {
+  grayscale: boolean;        // Implied by every other step
+  contrast: boolean;
+  crop: boolean;             // Cut off dark borders around the paper
+  binarization: BinarizationMethod | null;
+  deskew: boolean;
+  denoise: boolean;
+}
+
+/** Preprocessing as configured by the user */
+export interface PreprocessingSettings extends Omit<PreprocessingSteps, "binarization"> {
+  binarization: BinarizationMethod | "auto" | "none"; // "auto": try both methods
+  compareOriginal: boolean;  // Also read the unprocessed image and keep the better result
+}
+
+/** User preferences stored locally */
+export interface UserSettings {
+  bundesland?: Bundesland;       // Used for public holidays in deadline calculation
+  preprocessing?: Partial<PreprocessingSettings>; // Image preprocessing before OCR
+}